@@ -1,6 +1,8 @@
 // Demand Predictor Simplified Implementation for ONEA-OPT
 // LSTM-inspired time series forecasting
 
+import { randomNormal, resolveRandom, type RandomOptions } from './rng';
+
 export interface DemandPredictionParams {
   historical: number[]; // Last 7 days hourly consumption (168 points)
   dayOfWeek: number; // 0-6 (Sunday-Saturday)
@@ -27,13 +29,17 @@ const BASE_CONSUMPTION = 6450; // m³/day - Station Ziga baseline
 const PEAK_HOURS_MORNING = [6, 7, 8, 9];
 const PEAK_HOURS_EVENING = [17, 18, 19, 20, 21];
 const OFF_PEAK_HOURS = [22, 23, 0, 1, 2, 3, 4, 5];
+const SCENARIO_LEVEL_SPREAD = 0.5; // Relative std of the daily level error per point of missing confidence
+const SCENARIO_STEP_SPREAD = 0.3; // Relative std of the step-to-step error per point of missing confidence
+const SCENARIO_CORRELATION = 0.8; // Autocorrelation of the step errors
 
 /**
  * Main prediction function
  * Simplified LSTM-inspired approach using pattern matching and statistical analysis
  */
-export function predictDemand(params: DemandPredictionParams): DemandPrediction {
+export function predictDemand(params: DemandPredictionParams, options?: RandomOptions): DemandPrediction {
   const { historical, dayOfWeek, isHoliday, temperature, season } = params;
+  const random = resolveRandom(options);
   
   // Calculate base pattern from historical data
   const basePattern = extractDailyPattern(historical);
@@ -67,7 +73,7 @@ export function predictDemand(params: DemandPredictionParams): DemandPrediction
     }
     
     // Add small random variation (±5%)
-    const variation = 0.95 + Math.random() * 0.1;
+    const variation = 0.95 + random() * 0.1;
     demand *= variation;
     
     hourly.push(Math.round(demand));
@@ -208,8 +214,10 @@ function calculateConfidence(historicalLength: number, isHoliday: boolean): numb
  */
 export function predictMultiDay(
   params: DemandPredictionParams,
-  daysAhead: number
+  daysAhead: number,
+  options?: RandomOptions
 ): DemandPrediction[] {
+  const random = resolveRandom(options);
   const predictions: DemandPrediction[] = [];
   
   for (let i = 0; i < daysAhead; i++) {
@@ -222,12 +230,41 @@ export function predictMultiDay(
       isHoliday: checkIfHoliday(futureDate)
     };
     
-    predictions.push(predictDemand(dayParams));
+    predictions.push(predictDemand(dayParams, { random }));
   }
   
   return predictions;
 }
 
+/**
+ * Sample demand trajectories around a forecast, for robust scheduling
+ * Each scenario combines a multiplicative error on the whole level of the forecast (a forecast
+ * that is 10% low all day long) with autocorrelated step-to-step errors, both wider as the
+ * confidence drops: at confidence 0.85 the level error has a 7.5% standard deviation.
+ */
+export function sampleDemandScenarios(
+  forecast: number[],
+  confidence: number,
+  count: number,
+  options?: RandomOptions
+): number[][] {
+  const random = resolveRandom(options);
+  const uncertainty = Math.max(0, 1 - confidence);
+  const levelSpread = uncertainty * SCENARIO_LEVEL_SPREAD;
+  const stepSpread = uncertainty * SCENARIO_STEP_SPREAD;
+  const innovation = Math.sqrt(1 - SCENARIO_CORRELATION * SCENARIO_CORRELATION);
+  
+  return Array.from({ length: count }, () => {
+    const level = 1 + randomNormal(random) * levelSpread;
+    let error = randomNormal(random);
+    
+    return forecast.map(demand => {
+      error = SCENARIO_CORRELATION * error + innovation * randomNormal(random);
+      return Math.max(0, Math.round(demand * (level + error * stepSpread)));
+    });
+  });
+}
+
 /**
  * Check if date is a holiday (Burkina Faso 2026)
  */
@@ -349,6 +386,9 @@ export function exportDemandPredictorConfig(): {
       peakHoursMorning: PEAK_HOURS_MORNING,
       peakHoursEvening: PEAK_HOURS_EVENING,
       offPeakHours: OFF_PEAK_HOURS,
+      scenarioLevelSpread: SCENARIO_LEVEL_SPREAD,
+      scenarioStepSpread: SCENARIO_STEP_SPREAD,
+      scenarioCorrelation: SCENARIO_CORRELATION,
       temperatureThresholds: {
         heatwave: 38,
         hot: 35,
@@ -356,6 +396,6 @@ export function exportDemandPredictorConfig(): {
         cool: 20
       }
     },
-    description: 'Time series forecasting for water demand using pattern matching, seasonal adjustments, and temperature correlation'
+    description: 'Time series forecasting for water demand using pattern matching, seasonal adjustments, and temperature correlation; samples demand scenarios around the forecast for robust pump scheduling'
   };
 }
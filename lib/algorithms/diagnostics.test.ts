@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { diagnoseSchedule, stepRanges } from './diagnostics';
+import type { PumpScheduleParams } from './schedule-model';
+
+// One 1 000 m³ tank at 50%, two 100 m³/h pumps, a steady draw
+function tankParams(
+  demand: number,
+  constraints: Partial<PumpScheduleParams['constraints']> = {},
+  overrides: Partial<PumpScheduleParams> = {}
+): PumpScheduleParams {
+  return {
+    demand: Array(24).fill(demand),
+    tariffs: Array(24).fill(100),
+    reservoirs: [{ id: 'R1', capacity: 1000, usableVolume: 1000, minLevel: 20, maxLevel: 95, initialLevel: 50 }],
+    pumps: [
+      { id: 'P1', power: 50, efficiency: 0.5, maxFlow: 100 },
+      { id: 'P2', power: 50, efficiency: 0.5, maxFlow: 100 }
+    ],
+    constraints: { minCosPhi: 0, maxActivePumps: 2, ...constraints },
+    ...overrides
+  };
+}
+
+// Pumps running at each step, e.g. [1, 0] = P1 only
+function planning(stepPlan: (step: number) => number[]): number[][] {
+  return Array.from({ length: 24 }, (_, step) => stepPlan(step));
+}
+
+describe('diagnoseSchedule', () => {
+  it('reports nothing for a schedule that meets every constraint', () => {
+    const diagnostics = diagnoseSchedule(planning(() => [1, 0]), tankParams(100));
+
+    expect(diagnostics).toEqual({ feasible: true, breaches: [], relaxations: [], pumpingCapacityShort: false });
+  });
+
+  it('lowers the minimum and end levels to what the schedule reaches when pumping could keep up', () => {
+    const diagnostics = diagnoseSchedule(planning(() => [0, 0]), tankParams(20));
+    const constraints = diagnostics.breaches.map(b => b.constraint);
+
+    expect(diagnostics.feasible).toBe(false);
+    expect(diagnostics.pumpingCapacityShort).toBe(false);
+    expect(constraints).toEqual(['minLevel', 'endLevel']);
+    // 2% drawn per hour from 50%: below 20% after 15h
+    expect(stepRanges(diagnostics.breaches[0].steps)).toEqual([[15, 23]]);
+    expect(diagnostics.relaxations).toContainEqual(
+      { parameter: 'minLevel', subject: 'R1', current: 20, proposed: 2, unit: '%' }
+    );
+    expect(diagnostics.relaxations).toContainEqual(
+      { parameter: 'targetEndLevel', subject: 'R1', current: 50, proposed: 2, unit: '%' }
+    );
+  });
+
+  it('proposes more pumps at once when the allowed ones cannot keep the tank up', () => {
+    const diagnostics = diagnoseSchedule(planning(() => [1, 0]), tankParams(150, { maxActivePumps: 1 }));
+
+    expect(diagnostics.pumpingCapacityShort).toBe(true);
+    expect(diagnostics.relaxations).toContainEqual(
+      { parameter: 'maxActivePumps', current: 1, proposed: 2, unit: 'pompes' }
+    );
+  });
+
+  it('proposes the shortest run and the most daily starts of the schedule', () => {
+    // P2 runs 1h twice, with 2h stops
+    const diagnostics = diagnoseSchedule(
+      planning(step => [1, step === 5 || step === 8 ? 1 : 0]),
+      tankParams(100, { minOnTime: 2, minOffTime: 3, maxStartsPerDay: 1 })
+    );
+
+    expect(diagnostics.breaches.filter(b => b.subject === 'P2').map(b => b.constraint)).toEqual(['runTime', 'starts']);
+    expect(diagnostics.relaxations).toEqual(expect.arrayContaining([
+      { parameter: 'minOnTime', current: 2, proposed: 1, unit: 'h' },
+      { parameter: 'minOffTime', current: 3, proposed: 2, unit: 'h' },
+      { parameter: 'maxStartsPerDay', current: 1, proposed: 2, unit: 'démarrages/j' }
+    ]));
+  });
+
+  it('raises the subscribed power to the peak drawn', () => {
+    const diagnostics = diagnoseSchedule(
+      planning(step => (step < 2 ? [1, 1] : [1, 0])),
+      tankParams(100, {}, { powerTariff: { subscribedPower: 60, powerCharge: 3000, overrunPenalty: 200 } })
+    );
+    const overrun = diagnostics.breaches.find(b => b.constraint === 'subscribedPower');
+
+    expect(overrun?.steps).toEqual([0, 1]);
+    expect(diagnostics.relaxations).toContainEqual(
+      expect.objectContaining({ parameter: 'subscribedPower', current: 60, proposed: 100 })
+    );
+  });
+});
+
+describe('stepRanges', () => {
+  it('merges consecutive steps into inclusive ranges', () => {
+    expect(stepRanges([9, 1, 2, 3, 7, 10])).toEqual([[1, 3], [7, 7], [9, 10]]);
+  });
+});
@@ -0,0 +1,317 @@
+// Infeasibility Diagnostics for ONEA-OPT
+// Which constraints a schedule breaks, when and by how much, and which relaxations would lift them
+
+import {
+  simulateSchedule,
+  planningFromPumpCounts,
+  buildAvailabilityMask,
+  buildLockMask,
+  buildOutageMask,
+  getStepCount,
+  DEFAULT_STEP_MINUTES,
+  type PumpScheduleParams,
+  type ScheduleSimulation
+} from './schedule-model';
+import { deadLevel, effectiveMinLevel } from './reservoir-model';
+
+export type ScheduleConstraint =
+  | 'minLevel'
+  | 'maxLevel'
+  | 'endLevel'
+  | 'cosPhi'
+  | 'runTime'
+  | 'starts'
+  | 'subscribedPower'
+  | 'genset';
+
+export type RelaxableParameter =
+  | 'minLevel'
+  | 'maxLevel'
+  | 'targetEndLevel'
+  | 'minCosPhi'
+  | 'minOnTime'
+  | 'minOffTime'
+  | 'maxStartsPerDay'
+  | 'maxActivePumps'
+  | 'subscribedPower'
+  | 'gensetPower';
+
+export interface ConstraintBreach {
+  constraint: ScheduleConstraint;
+  subject?: string; // Reservoir or pump id
+  steps: number[]; // Time steps where the constraint is broken, empty when it applies to the whole horizon
+  amount: number; // Worst excess, in unit
+  unit: string;
+}
+
+export interface Relaxation {
+  parameter: RelaxableParameter;
+  subject?: string; // Reservoir id for level limits
+  current: number;
+  proposed: number;
+  unit: string;
+}
+
+export interface ScheduleDiagnostics {
+  feasible: boolean;
+  breaches: ConstraintBreach[]; // Reservoir limits are checked in the worst demand trajectory
+  relaxations: Relaxation[]; // Changes to the problem that lift the breaches
+  pumpingCapacityShort: boolean; // Even running every allowed pump, a reservoir falls below its minimum
+}
+
+// Diagnostics Parameters
+const TOLERANCE = 1e-6;
+
+/**
+ * Diagnose a schedule against every constraint of the problem
+ * Reservoir limits get a capacity check: the allowed pumps running flat out on every step. When that
+ * still empties a tank, the relaxation is on maxActivePumps (if more pumps exist and that is enough)
+ * or on the minimum level it can reach; otherwise on the levels this schedule reaches.
+ */
+export function diagnoseSchedule(
+  pumpPlanning: number[][],
+  params: PumpScheduleParams,
+  capacitorPlanning?: number[],
+  speedPlanning?: number[][]
+): ScheduleDiagnostics {
+  const { reservoirs, constraints } = params;
+  const steps = getStepCount(params);
+  const stepHours = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) / 60;
+  const simulations = simulateTrajectories(pumpPlanning, params, capacitorPlanning, speedPlanning);
+  const nominal = simulations[0];
+  const breaches: ConstraintBreach[] = [];
+  const relaxations: Relaxation[] = [];
+  let pumpingCapacityShort = false;
+
+  // Reservoir levels, at each step in the worst demand trajectory
+  const capacityLowest = lowestLevels(
+    simulateTrajectories(maximumPumping(params, constraints.maxActivePumps), params)
+  );
+  const planLowest = lowestLevels(simulations);
+  const planHighest = highestLevels(simulations);
+  reservoirs.forEach(reservoir => {
+    const minLevel = effectiveMinLevel(reservoir);
+    const low = stepBreach('minLevel', reservoir.id, planLowest[reservoir.id].slice(1).map(l => minLevel - l), '%');
+    if (low) {
+      breaches.push(low);
+      const shortOfCapacity = Math.min(...capacityLowest[reservoir.id].slice(1)) < minLevel - TOLERANCE;
+      pumpingCapacityShort ||= shortOfCapacity;
+      const reachable = Math.min(...(shortOfCapacity ? capacityLowest : planLowest)[reservoir.id].slice(1));
+      const proposed = Math.max(Math.ceil(deadLevel(reservoir)), Math.floor(reachable));
+      if (proposed < reservoir.minLevel) {
+        relaxations.push({ parameter: 'minLevel', subject: reservoir.id, current: reservoir.minLevel, proposed, unit: '%' });
+      }
+    }
+
+    const high = stepBreach(
+      'maxLevel', reservoir.id, planHighest[reservoir.id].slice(1).map(l => l - reservoir.maxLevel), '%'
+    );
+    if (high) {
+      breaches.push(high);
+      const proposed = Math.min(100, Math.ceil(Math.max(...planHighest[reservoir.id])));
+      relaxations.push({ parameter: 'maxLevel', subject: reservoir.id, current: reservoir.maxLevel, proposed, unit: '%' });
+    }
+
+    const target = reservoir.targetEndLevel ?? reservoir.initialLevel;
+    const endLevel = planLowest[reservoir.id][steps];
+    if (target - endLevel > TOLERANCE) {
+      breaches.push({ constraint: 'endLevel', subject: reservoir.id, steps: [steps - 1], amount: target - endLevel, unit: '%' });
+      relaxations.push({
+        parameter: 'targetEndLevel', subject: reservoir.id, current: target, proposed: Math.floor(endLevel), unit: '%'
+      });
+    }
+  });
+
+  // More pumps at once is enough to keep every tank above its minimum
+  if (pumpingCapacityShort && constraints.maxActivePumps < params.pumps.length) {
+    const allPumps = lowestLevels(simulateTrajectories(maximumPumping(params, params.pumps.length), params));
+    const enough = reservoirs.every(r => Math.min(...allPumps[r.id].slice(1)) >= effectiveMinLevel(r) - TOLERANCE);
+    if (enough) {
+      relaxations.push({
+        parameter: 'maxActivePumps', current: constraints.maxActivePumps, proposed: params.pumps.length, unit: 'pompes'
+      });
+    }
+  }
+
+  // Power factor over the horizon
+  if (constraints.minCosPhi - nominal.cosPhi > TOLERANCE) {
+    breaches.push({ constraint: 'cosPhi', steps: [], amount: constraints.minCosPhi - nominal.cosPhi, unit: 'Cos φ' });
+    relaxations.push({
+      parameter: 'minCosPhi', current: constraints.minCosPhi, proposed: Math.floor(nominal.cosPhi * 100) / 100, unit: ''
+    });
+  }
+
+  // Minimum run/rest times and daily starts, pump by pump
+  const minOnSteps = Math.ceil((constraints.minOnTime ?? 0) / stepHours);
+  const minOffSteps = Math.ceil((constraints.minOffTime ?? 0) / stepHours);
+  let shortestOn = Infinity;
+  let shortestOff = Infinity;
+  params.pumps.forEach((pump, p) => {
+    const shortRuns = closedRuns(pumpPlanning, p, pump.initiallyOn === true, steps)
+      .filter(run => run.length < (run.on ? minOnSteps : minOffSteps));
+    if (shortRuns.length > 0) {
+      breaches.push({
+        constraint: 'runTime',
+        subject: pump.id,
+        steps: shortRuns.flatMap(run => Array.from({ length: run.length }, (_, i) => run.start + i)),
+        amount: Math.max(...shortRuns.map(run => ((run.on ? minOnSteps : minOffSteps) - run.length) * stepHours)),
+        unit: 'h'
+      });
+    }
+    shortRuns.forEach(run => {
+      if (run.on) shortestOn = Math.min(shortestOn, run.length * stepHours);
+      else shortestOff = Math.min(shortestOff, run.length * stepHours);
+    });
+
+    const report = nominal.switchingReports[p];
+    if (report.excessStarts > 0) {
+      breaches.push({ constraint: 'starts', subject: pump.id, steps: [], amount: report.excessStarts, unit: 'démarrages' });
+    }
+  });
+  if (shortestOn < Infinity) {
+    relaxations.push({ parameter: 'minOnTime', current: constraints.minOnTime ?? 0, proposed: shortestOn, unit: 'h' });
+  }
+  if (shortestOff < Infinity) {
+    relaxations.push({ parameter: 'minOffTime', current: constraints.minOffTime ?? 0, proposed: shortestOff, unit: 'h' });
+  }
+  const maxStarts = Math.max(...nominal.switchingReports.map(r => r.maxStartsInADay));
+  if (constraints.maxStartsPerDay !== undefined && maxStarts > constraints.maxStartsPerDay) {
+    relaxations.push({
+      parameter: 'maxStartsPerDay', current: constraints.maxStartsPerDay, proposed: maxStarts, unit: 'démarrages/j'
+    });
+  }
+
+  // Subscribed power on grid steps, genset rating during outages
+  const outages = buildOutageMask(params);
+  const subscribed = params.powerTariff?.subscribedPower;
+  if (subscribed !== undefined) {
+    const overrun = stepBreach(
+      'subscribedPower', undefined, nominal.importedPower.map((kW, step) => (outages[step] ? 0 : kW - subscribed)), 'kW'
+    );
+    if (overrun) {
+      breaches.push(overrun);
+      relaxations.push({ parameter: 'subscribedPower', current: subscribed, proposed: Math.ceil(nominal.peakPower), unit: 'kW' });
+    }
+  }
+  const gensetPower = params.genset?.power ?? 0;
+  const overload = stepBreach(
+    'genset', undefined, nominal.importedPower.map((kW, step) => (outages[step] ? kW - gensetPower : 0)), 'kW'
+  );
+  if (overload) {
+    breaches.push(overload);
+    relaxations.push({
+      parameter: 'gensetPower', current: gensetPower, proposed: Math.ceil(gensetPower + overload.amount), unit: 'kW'
+    });
+  }
+
+  return { feasible: breaches.length === 0, breaches, relaxations, pumpingCapacityShort };
+}
+
+/**
+ * Consecutive steps as [start, end] ranges (end inclusive), for display
+ */
+export function stepRanges(steps: number[]): [number, number][] {
+  const ranges: [number, number][] = [];
+  [...steps].sort((a, b) => a - b).forEach(step => {
+    const last = ranges[ranges.length - 1];
+    if (last && step <= last[1] + 1) last[1] = Math.max(last[1], step);
+    else ranges.push([step, step]);
+  });
+  return ranges;
+}
+
+function simulateTrajectories(
+  pumpPlanning: number[][],
+  params: PumpScheduleParams,
+  capacitorPlanning?: number[],
+  speedPlanning?: number[][]
+): ScheduleSimulation[] {
+  return [params.demand, ...(params.demandScenarios ?? [])].map(demand =>
+    simulateSchedule(pumpPlanning, { ...params, demand }, capacitorPlanning, speedPlanning)
+  );
+}
+
+function lowestLevels(simulations: ScheduleSimulation[]): Record<string, number[]> {
+  return extremeLevels(simulations, Math.min);
+}
+
+function highestLevels(simulations: ScheduleSimulation[]): Record<string, number[]> {
+  return extremeLevels(simulations, Math.max);
+}
+
+function extremeLevels(
+  simulations: ScheduleSimulation[],
+  pick: (...values: number[]) => number
+): Record<string, number[]> {
+  const levels: Record<string, number[]> = {};
+  for (const [id, trajectory] of Object.entries(simulations[0].reservoirTrajectories)) {
+    levels[id] = trajectory.map((_, i) => pick(...simulations.map(s => s.reservoirTrajectories[id][i])));
+  }
+  return levels;
+}
+
+function stepBreach(
+  constraint: ScheduleConstraint,
+  subject: string | undefined,
+  excess: number[],
+  unit: string
+): ConstraintBreach | null {
+  const steps = excess.flatMap((value, step) => (value > TOLERANCE ? [step] : []));
+  if (steps.length === 0) return null;
+  return { constraint, subject, steps, amount: Math.max(...steps.map(step => excess[step])), unit };
+}
+
+/**
+ * As many available pumps as allowed on every step, operator locks kept
+ */
+function maximumPumping(params: PumpScheduleParams, maxActive: number): number[][] {
+  const locks = buildLockMask(params);
+  return planningFromPumpCounts(
+    locks.map(() => maxActive),
+    params.pumps,
+    buildAvailabilityMask(params)
+  ).map((stepPlan, step) => stepPlan.map((on, p) => locks[step][p] ?? on));
+}
+
+/**
+ * Runs and rests of a pump that start and end inside the horizon (those cut by its bounds are not checked)
+ */
+function closedRuns(
+  pumpPlanning: number[][],
+  pump: number,
+  initiallyOn: boolean,
+  steps: number
+): { on: boolean; start: number; length: number }[] {
+  const runs: { on: boolean; start: number; length: number }[] = [];
+  let state = initiallyOn;
+  let start = 0;
+  let seenTransition = false;
+  for (let step = 0; step < steps; step++) {
+    const on = pumpPlanning[step][pump] === 1;
+    if (on === state) continue;
+    if (seenTransition) runs.push({ on: state, start, length: step - start });
+    seenTransition = true;
+    state = on;
+    start = step;
+  }
+  return runs;
+}
+
+/**
+ * Export algorithm configuration
+ */
+export function exportDiagnosticsConfig(): {
+  name: string;
+  version: string;
+  parameters: Record<string, number>;
+  description: string;
+} {
+  return {
+    name: 'Schedule Infeasibility Diagnostics',
+    version: '1.0.0',
+    parameters: {
+      tolerance: TOLERANCE
+    },
+    description: 'Lists the constraints a schedule breaks, with their steps and amounts, and the parameter relaxations that lift each breach'
+  };
+}
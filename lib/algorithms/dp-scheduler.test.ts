@@ -0,0 +1,44 @@
+import { describe, expect, it } from 'vitest';
+import { solvePumpScheduleDP } from './dp-scheduler';
+import { optimizePumpSchedule } from './nsga2';
+import type { PumpScheduleParams } from './schedule-model';
+import {
+  ZIGA_STATION,
+  buildStationReservoirs,
+  generateDemandProfile,
+  generateTariffSchedule
+} from '../data/ziga-mock-data';
+
+describe('solvePumpScheduleDP', () => {
+  // No run/rest or start limits, so the relaxation only merges the reservoirs
+  const params: PumpScheduleParams = {
+    demand: generateDemandProfile(new Date(2024, 5, 1), 60, 24, { seed: 3 }),
+    tariffs: generateTariffSchedule(),
+    reservoirs: buildStationReservoirs(),
+    pumps: ZIGA_STATION.pumps.map(p => ({
+      id: p.id,
+      power: p.power,
+      efficiency: p.efficiency,
+      maxFlow: p.maxFlow
+    })),
+    constraints: { minCosPhi: 0, maxActivePumps: 3 }
+  };
+
+  it('costs no more than a feasible GA planning on a 24h case', () => {
+    const reference = solvePumpScheduleDP(params);
+    const ga = optimizePumpSchedule(params, { populationSize: 30, generations: 20, seed: 42 });
+
+    expect(ga.constraintViolation).toBe(0);
+    expect(reference.relaxedCost).toBeLessThanOrEqual(ga.cost);
+  });
+
+  it('returns a planning over the whole horizon within maxActivePumps', () => {
+    const reference = solvePumpScheduleDP({
+      ...params,
+      constraints: { ...params.constraints, maxActivePumps: 2 }
+    });
+
+    expect(reference.pumpPlanning).toHaveLength(24);
+    expect(reference.pumpPlanning.every(step => step.reduce((a, b) => a + b, 0) <= 2)).toBe(true);
+  });
+});
@@ -0,0 +1,237 @@
+// Dynamic Programming Reference Solver for ONEA-OPT
+// Relaxed pump scheduling over discretized reservoir volume, a reference to measure the GA against
+
+import {
+  buildLockMask,
+  buildOutageMask,
+  calculateDemandCharge,
+  calculateUniformCost,
+  getStepCount,
+  stepEnergyPrices,
+  stepPowerLimits,
+  stepPumpOperation,
+  usesPumpCurves,
+  DEFAULT_STEP_MINUTES,
+  type PumpScheduleParams
+} from './schedule-model';
+import { deadLevel, effectiveMinLevel, levelToVolume } from './reservoir-model';
+import { buildOptimizedSchedule, type OptimizedSchedule } from './nsga2';
+
+export interface DpOptions {
+  volumeLevels?: number; // Grid points over the total reservoir volume
+}
+
+export interface DpResult extends OptimizedSchedule {
+  relaxedCost: number; // FCFA - energy and start-up cost of the planning on the relaxed model
+  volumeLevels: number;
+}
+
+// DP Parameters
+const VOLUME_LEVELS = 200;
+const VIOLATION_PENALTY = 1e6; // FCFA per % of level outside limits - makes feasibility dominate cost
+
+/**
+ * Reference solver - dynamic programming on a relaxed problem
+ * State = (step, stored volume, previous pump combination): start-up costs, locks,
+ * availability, maxActivePumps, the subscribed power and grid outages (diesel price,
+ * genset rating) are modeled, and PV output is netted step by step. Reservoirs are
+ * merged into one tank, minimum run/rest times, daily start limits, Cos φ and the
+ * battery are ignored, and only the forecast demand is followed (not its scenarios).
+ * With pump curves, each combination keeps its operating point at the initial levels
+ * and drives stay at full speed.
+ * The volume grid keeps one path per cell, so the result is not a proven optimum.
+ * The planning is re-simulated on the full model, with capacitor steps matched to the
+ * pumps: a constraintViolation above 0 means the relaxation does not hold, and the
+ * reference is not a fair comparison.
+ */
+export function solvePumpScheduleDP(params: PumpScheduleParams, options?: DpOptions): DpResult {
+  const { pumps, reservoirs, demand, constraints } = params;
+  const levels = Math.max(2, options?.volumeLevels ?? VOLUME_LEVELS);
+  const steps = getStepCount(params);
+  const stepHours = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) / 60;
+  const startupEnergy = constraints.startupEnergy ?? 0;
+  const fixedGenes = buildLockMask(params);
+  const prices = stepEnergyPrices(params);
+  const powerLimits = stepPowerLimits(params);
+  const solar = Array.from({ length: steps }, (_, step) => (params.solarProduction?.[step] ?? 0) * stepHours);
+
+  // Merged tank
+  const capacity = reservoirs.reduce((sum, r) => sum + r.capacity, 0);
+  const deadVolume = reservoirs.reduce((sum, r) => sum + levelToVolume(r, deadLevel(r)), 0);
+  const minLevel = reservoirs.reduce((sum, r) => sum + levelToVolume(r, effectiveMinLevel(r)), 0) / capacity * 100;
+  const maxLevel = reservoirs.reduce((sum, r) => sum + levelToVolume(r, r.maxLevel), 0) / capacity * 100;
+  const initialVolume = reservoirs.reduce((sum, r) => sum + levelToVolume(r, r.initialLevel), 0);
+  const targetLevel = reservoirs.reduce(
+    (sum, r) => sum + levelToVolume(r, r.targetEndLevel ?? r.initialLevel), 0
+  ) / capacity * 100;
+  const volumeStep = capacity / (levels - 1);
+
+  // Pump combinations as bit masks
+  const combos = 1 << pumps.length;
+  const inflow = new Float64Array(combos);
+  const energy = new Float64Array(combos);
+  const power = new Float64Array(combos);
+  const activeCount = new Int32Array(combos);
+  const curves = usesPumpCurves(params);
+  const initialLevels = reservoirs.map(r => r.initialLevel);
+  for (let mask = 0; mask < combos; mask++) {
+    const stepPlan = pumps.map((_, p) => (mask & (1 << p) ? 1 : 0));
+    const operation = stepPumpOperation(stepPlan, params, initialLevels);
+    for (let p = 0; p < pumps.length; p++) {
+      if (!stepPlan[p]) continue;
+      const volume = operation[p].flow * stepHours;
+      inflow[mask] += volume;
+      energy[mask] += curves ? operation[p].power * stepHours : volume * pumps[p].efficiency;
+      power[mask] += operation[p].power;
+      activeCount[mask]++;
+    }
+  }
+  const initialMask = pumps.reduce((mask, pump, p) => (pump.initiallyOn ? mask | (1 << p) : mask), 0);
+
+  // Each grid cell keeps the exact volume of its best path, so rounding errors do not accumulate
+  // (otherwise short steps with small volume changes would never leave their cell)
+  const stateCount = levels * combos;
+  let cost = new Float64Array(stateCount).fill(Infinity);
+  let modelCost = new Float64Array(stateCount);
+  let stateVolume = new Float64Array(stateCount);
+  const initialState = Math.round(initialVolume / volumeStep) * combos + initialMask;
+  cost[initialState] = 0;
+  stateVolume[initialState] = initialVolume;
+  const parents: Int32Array[] = [];
+
+  for (let step = 0; step < steps; step++) {
+    const allowed = allowedCombos(fixedGenes[step], combos, activeCount, constraints.maxActivePumps, power, powerLimits[step]);
+    const draw = demand[step] * stepHours;
+    const nextCost = new Float64Array(stateCount).fill(Infinity);
+    const nextModelCost = new Float64Array(stateCount);
+    const nextVolume = new Float64Array(stateCount);
+    const parent = new Int32Array(stateCount).fill(-1);
+
+    for (let state = 0; state < stateCount; state++) {
+      if (cost[state] === Infinity) continue;
+      const previousMask = state % combos;
+      const volume = stateVolume[state];
+
+      for (const mask of allowed) {
+        let next = volume + inflow[mask];
+        next -= Math.min(draw, Math.max(0, next - deadVolume));
+        next = Math.min(capacity, next);
+
+        const level = (next / capacity) * 100;
+        const violation = Math.max(0, minLevel - level) + Math.max(0, level - maxLevel);
+        const starts = popCount(mask & ~previousMask);
+        const stepCost = Math.max(0, energy[mask] + starts * startupEnergy - solar[step]) * prices[step];
+
+        const target = Math.round(next / volumeStep) * combos + mask;
+        const total = cost[state] + stepCost + violation * VIOLATION_PENALTY;
+        if (total < nextCost[target]) {
+          nextCost[target] = total;
+          nextModelCost[target] = modelCost[state] + stepCost;
+          nextVolume[target] = next;
+          parent[target] = state;
+        }
+      }
+    }
+
+    parents.push(parent);
+    cost = nextCost;
+    modelCost = nextModelCost;
+    stateVolume = nextVolume;
+  }
+
+  // Best final state, including the end-of-horizon level target
+  let bestState = -1;
+  let bestTotal = Infinity;
+  for (let state = 0; state < stateCount; state++) {
+    if (cost[state] === Infinity) continue;
+    const level = (stateVolume[state] / capacity) * 100;
+    const total = cost[state] + Math.max(0, targetLevel - level) * VIOLATION_PENALTY;
+    if (total < bestTotal) {
+      bestTotal = total;
+      bestState = state;
+    }
+  }
+
+  // Backtrack the pump combinations
+  const pumpPlanning: number[][] = new Array(steps);
+  let state = bestState;
+  const outages = buildOutageMask(params);
+  let peakPower = 0;
+  for (let step = steps - 1; step >= 0; step--) {
+    const mask = state % combos;
+    pumpPlanning[step] = pumps.map((_, p) => (mask & (1 << p) ? 1 : 0));
+    if (!outages[step]) peakPower = Math.max(peakPower, Math.max(0, power[mask] - solar[step] / stepHours));
+    state = parents[step][state];
+  }
+
+  // The demand charge only depends on the peak, which the allowed combinations already cap
+  const { demandCharge } = calculateDemandCharge(peakPower, params);
+
+  return {
+    ...buildOptimizedSchedule(pumpPlanning, params, calculateUniformCost(params)),
+    relaxedCost: Math.round(modelCost[bestState] + demandCharge),
+    volumeLevels: levels
+  };
+}
+
+/**
+ * Pump combinations compatible with the locks of a step, maxActivePumps and its power limit
+ * Locks win over both limits when the operator forces more pumps on.
+ */
+function allowedCombos(
+  fixed: (number | null)[],
+  combos: number,
+  activeCount: Int32Array,
+  maxActive: number,
+  power: Float64Array,
+  maxPower: number
+): number[] {
+  const matching: number[] = [];
+  for (let mask = 0; mask < combos; mask++) {
+    const respectsLocks = fixed.every((value, p) => value === null || value === ((mask >> p) & 1));
+    if (respectsLocks) matching.push(mask);
+  }
+  const withinLimit = matching.filter(mask => activeCount[mask] <= maxActive && power[mask] <= maxPower);
+  return withinLimit.length > 0 ? withinLimit : matching;
+}
+
+function popCount(mask: number): number {
+  let count = 0;
+  for (let m = mask; m; m &= m - 1) count++;
+  return count;
+}
+
+/**
+ * Cost gap of a schedule against the reference solution
+ * Only meaningful when the reference is feasible on the full model.
+ */
+export function scheduleGap(
+  candidate: OptimizedSchedule,
+  reference: OptimizedSchedule
+): { absolute: number; percent: number } {
+  const absolute = candidate.cost - reference.cost;
+  return {
+    absolute,
+    percent: reference.cost > 0 ? Math.round((absolute / reference.cost) * 1000) / 10 : 0
+  };
+}
+
+/**
+ * Export algorithm configuration
+ */
+export function exportDpSchedulerConfig(): {
+  name: string;
+  version: string;
+  parameters: Record<string, number>;
+  description: string;
+} {
+  return {
+    name: 'Dynamic Programming Reference Scheduler',
+    version: '1.0.0',
+    parameters: {
+      volumeLevels: VOLUME_LEVELS,
+      violationPenalty: VIOLATION_PENALTY
+    },
+    description: 'Dynamic programming over stored volume and pump combinations on a relaxed problem (one tank, no run-time limits), giving a reference cost for NSGA-II'
+  };
+}
@@ -0,0 +1,32 @@
+import { describe, expect, it } from 'vitest';
+import { createStreamingDetector, type PumpDataPoint, type StreamingResult } from './isolation-forest';
+import { createRng } from './rng';
+import { generatePumpDataPoints } from '../data/ziga-mock-data';
+
+const REPAIR_DAY = 14;
+
+function pushAll(data: PumpDataPoint[], seed: number): StreamingResult[] {
+  const detector = createStreamingDetector({ random: createRng(seed) });
+  return data.map(point => detector.push(point));
+}
+
+describe('createStreamingDetector', () => {
+  it('detects a repaired pump running moderately better than its worn baseline', () => {
+    // Two worn weeks at +8% kWh/m³, then the repaired pump
+    const data = generatePumpDataPoints(21, { random: createRng(1) }).map((point, i) =>
+      i < REPAIR_DAY * 24 ? { ...point, kwhM3: point.kwhM3 * 1.08 } : point
+    );
+    const drifts = pushAll(data, 11).flatMap(r => (r.drift ? [r.drift] : []));
+
+    expect(drifts).toHaveLength(1);
+    expect(drifts[0].feature).toBe('kwhM3');
+    expect(drifts[0].direction).toBe('down');
+    expect(drifts[0].detectedAt).toBeGreaterThan(data[REPAIR_DAY * 24].timestamp);
+    expect(drifts[0].detectedAt - data[REPAIR_DAY * 24].timestamp).toBeLessThan(3 * 24 * 3600000);
+  });
+
+  it('raises no drift on a stationary pump', () => {
+    const data = generatePumpDataPoints(28, { random: createRng(5) });
+    expect(pushAll(data, 15).some(r => r.drift)).toBe(false);
+  });
+});
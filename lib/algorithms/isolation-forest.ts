@@ -1,11 +1,15 @@
 // Isolation Forest Simplified Implementation for ONEA-OPT
 // Anomaly detection for pump monitoring
 
+import { resolveRandom, type RandomOptions, type RandomSource } from './rng';
+import { getAnomalyModel, saveAnomalyModel } from '../db';
+
 export interface PumpDataPoint {
   timestamp: number;
   kwhM3: number;
   debit: number;
   reservoir: number;
+  activePumps?: number; // Pumps on line at the station
   vibration?: number;
   temperature?: number;
   pressure?: number;
@@ -22,73 +26,348 @@ export interface AnomalyResult {
     debitDeviation: number;
     combinedScore: number;
   };
+  baseScore: number; // Score of a reading with the average path length, where the attributions start
+  attributions: FeatureAttribution[]; // Add up to score - baseScore, largest first
+}
+
+export interface FeatureAttribution {
+  feature: IsolationFeature;
+  label: string;
+  value?: number; // Reading, undefined when missing
+  deviation?: number; // z-score against the baseline
+  contribution: number; // Score points, > 0 pushes the reading towards an anomaly
+}
+
+export interface DriftEvent {
+  feature: IsolationFeature;
+  direction: 'up' | 'down';
+  changedAt: number; // Timestamp of the first reading of the new regime (estimated change point)
+  detectedAt: number;
+}
+
+export interface StreamingResult extends AnomalyResult {
+  drift?: DriftEvent; // Set on the reading that confirmed a change of regime
+}
+
+export interface StreamingOptions extends RandomOptions {
+  windowSize?: number; // Readings kept for retraining
+  retrainEvery?: number; // Readings between two scheduled retrainings
+  model?: IsolationForestModel; // Starting forest, e.g. the one stored for the pump
+}
+
+export interface StreamingDetector {
+  push(point: PumpDataPoint): StreamingResult;
+  getModel(): IsolationForestModel | null;
+  getWindow(): PumpDataPoint[];
+}
+
+export type SensorFeature = 'vibration' | 'temperature' | 'pressure'; // Optional, not every pump is instrumented
+export type IsolationFeature = 'kwhM3' | 'debit' | 'reservoir' | SensorFeature;
+
+export interface FeatureStats {
+  mean: number;
+  std: number;
+}
+
+// Operating context of a reading: hour-of-day block, pumps on line, flow band
+export type ContextDimension = 'hour' | 'pumps' | 'flow';
+
+export interface ContextBaselines {
+  flowBands: number[]; // Debit edges between the flow bands (training quantiles)
+  stats: Record<string, Partial<Record<IsolationFeature, FeatureStats>>>; // By context key
+}
+
+// Global statistics, and per context where the history is rich enough
+// Sensor statistics only when the sensor reported often enough during training
+export type AnomalyBaseline = Record<Exclude<IsolationFeature, SensorFeature>, FeatureStats> &
+  Partial<Record<SensorFeature, FeatureStats>> & { contexts: ContextBaselines };
+
+// Readings as z-scores against the baseline, undefined when the reading is missing
+type NormalizedPoint = Partial<Record<IsolationFeature, number>>;
+
+// Plain objects only, so that a trained forest can be stored as is (IndexedDB, JSON)
+// size = training points that reached the node
+export type IsolationNode =
+  | { size: number } // External node
+  | { feature: IsolationFeature; split: number; size: number; left: IsolationNode; right: IsolationNode };
+
+export interface IsolationForestModel {
+  trees: IsolationNode[];
+  features: IsolationFeature[]; // Features the trees split on (z-scores)
+  sampleSize: number; // Points drawn for each tree (ψ), sets the c(ψ) normalization
+  threshold: number; // Score above which a reading is anomalous
+  baseline: AnomalyBaseline; // Training statistics, for normalization, causes and deviations
+  trainingSize: number;
+  trainedAt: number; // ms
 }
 
 // Isolation Forest Parameters
 const CONTAMINATION = 0.1; // Expected anomaly rate (10%)
 const N_ESTIMATORS = 50; // Number of isolation trees
 const MAX_SAMPLES = 256; // Subsample size
-const ANOMALY_THRESHOLD = 0.15; // Score threshold for anomaly detection
+const ANOMALY_THRESHOLD = 0.5; // Lowest threshold: a score of 0.5 is an average path length
+const AVERAGE_PATH_SCORE = 0.5; // 2^-1: path length equal to c(ψ)
+const MIN_TRAINING_POINTS = 10;
+const MODEL_MAX_AGE_MS = 7 * 24 * 3600000; // Stored forests are retrained weekly
+const EULER_GAMMA = 0.5772156649;
+const MIN_SENSOR_COVERAGE = 0.5; // Share of training points with a sensor reading for the sensor to be used
+const SENSOR_DEVIATION = 2.5; // z-score of a sensor reading reported as a cause
+const WINDOW_SIZE = 7 * 24; // Streaming: a week of hourly readings
+const RETRAIN_INTERVAL = 24; // Streaming: daily retraining
+const DRIFT_DELTA = 0.5; // Page-Hinkley tolerance, in standard deviations
+const DRIFT_LAMBDA = 20; // Page-Hinkley alarm threshold
+const DRIFT_CLIP = 3; // z-scores are clipped so that a few outliers alone cannot raise a drift
+const DRIFT_MIN_HISTORY = 2 * 24; // Readings behind the forest before drift is tested (noisy baselines otherwise)
+const HOUR_BLOCK = 3; // Hours of the day sharing a baseline
+const FLOW_BANDS = 3; // Debit bands, by training quantiles
+const MIN_CONTEXT_POINTS = 10; // Readings for a context to get its own baseline
+const MIN_CONTEXT_STD = 0.25; // Floor of a context std, as a share of the global one
+// Contexts from the most specific, the empty one is the global baseline
+const CONTEXT_LEVELS: ContextDimension[][] = [['hour', 'pumps', 'flow'], ['pumps', 'flow'], ['hour'], []];
+const FEATURES: IsolationFeature[] = ['kwhM3', 'debit', 'reservoir', 'vibration', 'temperature', 'pressure'];
+const SENSOR_FEATURES: SensorFeature[] = ['vibration', 'temperature', 'pressure'];
+export const FEATURE_LABELS: Record<IsolationFeature, string> = {
+  kwhM3: 'kWh/m³',
+  debit: 'Débit',
+  reservoir: 'Niveau réservoir',
+  vibration: 'Vibration',
+  temperature: 'Température',
+  pressure: 'Pression'
+};
 
 /**
- * Main anomaly detection function
+ * Main anomaly detection function: trains a forest on the data and scores every point
  */
-export function detectAnomalies(data: PumpDataPoint[]): AnomalyResult[] {
-  if (data.length < 10) {
-    return data.map(d => ({
-      timestamp: d.timestamp,
-      score: 0,
-      isAnomaly: false,
-      probableCause: 'Insufficient data',
-      confidence: 0,
-      features: { kwhM3Deviation: 0, debitDeviation: 0, combinedScore: 0 }
-    }));
+export function detectAnomalies(data: PumpDataPoint[], options?: RandomOptions): AnomalyResult[] {
+  if (data.length < MIN_TRAINING_POINTS) {
+    return data.map(d => unscoredResult(d, 'Insufficient data'));
   }
   
-  // Calculate baseline statistics (moving average)
+  const model = trainIsolationForest(data, options);
+  return data.map(point => scoreAnomaly(point, model));
+}
+
+function unscoredResult(point: PumpDataPoint, probableCause: string): AnomalyResult {
+  return {
+    timestamp: point.timestamp,
+    score: 0,
+    isAnomaly: false,
+    probableCause,
+    confidence: 0,
+    features: { kwhM3Deviation: 0, debitDeviation: 0, combinedScore: 0 },
+    baseScore: 0,
+    attributions: []
+  };
+}
+
+/**
+ * Train an isolation forest
+ * Readings are normalized per feature (z-scores), so split ranges do not depend on units. Sensors
+ * missing from more than half of the history are left out; other gaps are filled with the mean.
+ * Each tree is grown on its own random subsample of ψ points, without replacement, up to
+ * ceil(log2 ψ) levels. The threshold is the (1 - contamination) quantile of the training scores,
+ * never below 0.5.
+ */
+export function trainIsolationForest(data: PumpDataPoint[], options?: RandomOptions): IsolationForestModel {
+  const random = resolveRandom(options);
   const baseline = calculateBaseline(data);
-  
-  // Build simplified isolation trees
-  const trees = buildIsolationForest(data, N_ESTIMATORS);
-  
-  // Score each data point
-  const results: AnomalyResult[] = data.map(point => {
-    const score = calculateAnomalyScore(point, trees, baseline);
-    const isAnomaly = score > ANOMALY_THRESHOLD;
-    
-    return {
-      timestamp: point.timestamp,
-      score: Math.round(score * 1000) / 1000,
-      isAnomaly,
-      probableCause: isAnomaly ? determineProbableCause(point, baseline) : 'Normal',
-      confidence: Math.min(1, score * 5),
-      features: calculateFeatureDeviations(point, baseline)
-    };
+  // A constant feature cannot be split
+  const features = FEATURES.filter(feature => (baseline[feature]?.std ?? 0) > 0);
+  const normalized = data.map(point => {
+    const values = normalizePoint(point, baseline, features);
+    for (const feature of features) values[feature] ??= 0;
+    return values;
   });
+
+  const sampleSize = Math.min(MAX_SAMPLES, data.length);
+  const heightLimit = Math.ceil(Math.log2(Math.max(2, sampleSize)));
+  const trees = Array.from({ length: N_ESTIMATORS }, () =>
+    buildTree(subsample(normalized, sampleSize, random), features, 0, heightLimit, random)
+  );
+  
+  const scores = normalized.map(point => isolationScore(point, trees, sampleSize)).sort((a, b) => a - b);
+  const quantile = scores[Math.floor((1 - CONTAMINATION) * (scores.length - 1))] ?? ANOMALY_THRESHOLD;
   
-  return results;
+  return {
+    trees,
+    features,
+    sampleSize,
+    threshold: Math.max(ANOMALY_THRESHOLD, quantile),
+    baseline,
+    trainingSize: data.length,
+    trainedAt: Date.now()
+  };
 }
 
 /**
- * Calculate baseline statistics using moving windows
+ * Score one reading against a trained forest
  */
-function calculateBaseline(data: PumpDataPoint[]): {
-  kwhM3: { mean: number; std: number };
-  debit: { mean: number; std: number };
-  reservoir: { mean: number; std: number };
-} {
-  const kwhM3Values = data.map(d => d.kwhM3);
-  const debitValues = data.map(d => d.debit);
-  const reservoirValues = data.map(d => d.reservoir);
+export function scoreAnomaly(point: PumpDataPoint, model: IsolationForestModel): AnomalyResult {
+  const normalized = normalizePoint(point, model.baseline, model.features);
+  const score = isolationScore(normalized, model.trees, model.sampleSize);
+  const isAnomaly = score > model.threshold;
   
   return {
-    kwhM3: calculateStats(kwhM3Values),
-    debit: calculateStats(debitValues),
-    reservoir: calculateStats(reservoirValues)
+    timestamp: point.timestamp,
+    score: Math.round(score * 1000) / 1000,
+    isAnomaly,
+    probableCause: isAnomaly ? determineProbableCause(point, model.baseline) : 'Normal',
+    confidence: Math.min(1, Math.max(0, (score - ANOMALY_THRESHOLD) * 2)),
+    features: calculateFeatureDeviations(point, model.baseline),
+    baseScore: AVERAGE_PATH_SCORE,
+    attributions: attributeScore(point, normalized, score, model)
   };
 }
 
-function calculateStats(values: number[]): { mean: number; std: number } {
+/**
+ * Share of each feature in the score of a reading
+ * Along a path, the expected depth left to isolate the reading is c(n) before a split and 1 + c(m)
+ * after it: the difference is credited to the split feature. Over a path these terms add up to
+ * c(ψ) - h, so per feature, averaged over the trees, they split log2(score / 0.5) exactly; they are
+ * then scaled linearly to score points. A missing reading shares both branches, as in the score.
+ */
+function attributeScore(
+  point: PumpDataPoint,
+  normalized: NormalizedPoint,
+  score: number,
+  model: IsolationForestModel
+): FeatureAttribution[] {
+  const totals: Partial<Record<IsolationFeature, number>> = {};
+  model.trees.forEach(tree => addPathContributions(normalized, tree, 1 / model.trees.length, totals));
+
+  const normalization = averagePathLength(model.sampleSize);
+  const logRatio = Math.log2(score / AVERAGE_PATH_SCORE);
+  // Score points per unit of log2(score / 0.5), its limit at 0 when the score is 0.5
+  const scale = Math.abs(logRatio) > 1e-9 ? (score - AVERAGE_PATH_SCORE) / logRatio : AVERAGE_PATH_SCORE * Math.LN2;
+
+  return model.features
+    .map(feature => ({
+      feature,
+      label: FEATURE_LABELS[feature],
+      value: point[feature],
+      deviation: normalized[feature],
+      contribution: normalization > 0 ? ((totals[feature] ?? 0) / normalization) * scale : 0
+    }))
+    .sort((a, b) => Math.abs(b.contribution) - Math.abs(a.contribution));
+}
+
+function addPathContributions(
+  point: NormalizedPoint,
+  node: IsolationNode,
+  weight: number,
+  totals: Partial<Record<IsolationFeature, number>>
+): void {
+  if (!('feature' in node)) return;
+  const value = point[node.feature];
+  const branches = value === undefined ? [node.left, node.right] : [value < node.split ? node.left : node.right];
+  for (const child of branches) {
+    const share = value === undefined ? (weight * child.size) / node.size : weight;
+    const gain = averagePathLength(node.size) - 1 - averagePathLength(child.size);
+    totals[node.feature] = (totals[node.feature] ?? 0) + share * gain;
+    addPathContributions(point, child, share, totals);
+  }
+}
+
+/**
+ * Stored forests older than a week no longer reflect the pump
+ * Forests stored before baselines were split by operating context are retrained as well.
+ */
+export function isModelStale(model: IsolationForestModel, now: number = Date.now()): boolean {
+  return now - model.trainedAt > MODEL_MAX_AGE_MS || !model.baseline.contexts;
+}
+
+/**
+ * Calculate baseline statistics
+ * Sensors are only kept when they reported for at least half of the points, over those readings.
+ * Each feature also gets statistics per operating context with at least MIN_CONTEXT_POINTS
+ * readings, so that night-time low-flow operation is compared with other nights, not with the peak.
+ */
+function calculateBaseline(data: PumpDataPoint[]): AnomalyBaseline {
+  const debits = data.map(d => d.debit).sort((a, b) => a - b);
+  const contexts: ContextBaselines = {
+    flowBands: Array.from({ length: FLOW_BANDS - 1 }, (_, i) =>
+      debits[Math.floor(((i + 1) / FLOW_BANDS) * (debits.length - 1))]
+    ),
+    stats: {}
+  };
+  const baseline: AnomalyBaseline = {
+    kwhM3: calculateStats(data.map(d => d.kwhM3)),
+    debit: calculateStats(debits),
+    reservoir: calculateStats(data.map(d => d.reservoir)),
+    contexts
+  };
+  for (const feature of SENSOR_FEATURES) {
+    const values = data.map(d => d[feature]).filter((v): v is number => v !== undefined && Number.isFinite(v));
+    if (values.length > 0 && values.length >= MIN_SENSOR_COVERAGE * data.length) {
+      baseline[feature] = calculateStats(values);
+    }
+  }
+
+  for (const feature of FEATURES) {
+    const global = baseline[feature];
+    if (!global) continue;
+    for (const dimensions of contextLevels(feature)) {
+      if (dimensions.length === 0) continue;
+      const groups = new Map<string, number[]>();
+      for (const point of data) {
+        const value = point[feature];
+        if (value === undefined || !Number.isFinite(value)) continue;
+        const key = contextKey(point, dimensions, contexts.flowBands);
+        const group = groups.get(key);
+        if (group) group.push(value);
+        else groups.set(key, [value]);
+      }
+      for (const [key, values] of groups) {
+        if (values.length < MIN_CONTEXT_POINTS) continue;
+        const stats = calculateStats(values);
+        stats.std = Math.max(stats.std, MIN_CONTEXT_STD * global.std);
+        contexts.stats[key] = { ...contexts.stats[key], [feature]: stats };
+      }
+    }
+  }
+  return baseline;
+}
+
+/**
+ * Context levels of a feature; debit is not conditioned on its own band
+ */
+function contextLevels(feature: IsolationFeature): ContextDimension[][] {
+  return feature === 'debit'
+    ? CONTEXT_LEVELS.map(dimensions => dimensions.filter(d => d !== 'flow'))
+    : CONTEXT_LEVELS;
+}
+
+function contextKey(point: PumpDataPoint, dimensions: ContextDimension[], flowBands: number[]): string {
+  return [
+    dimensions.includes('hour') ? `h${Math.floor(new Date(point.timestamp).getHours() / HOUR_BLOCK)}` : 'h*',
+    dimensions.includes('pumps') ? `p${point.activePumps ?? '?'}` : 'p*',
+    dimensions.includes('flow') ? `f${flowBands.filter(edge => point.debit >= edge).length}` : 'f*'
+  ].join('|');
+}
+
+/**
+ * Statistics of the most specific context of a reading that has its own baseline
+ */
+function matchingStats(point: PumpDataPoint, baseline: AnomalyBaseline, feature: IsolationFeature): FeatureStats | undefined {
+  for (const dimensions of contextLevels(feature)) {
+    if (dimensions.length === 0) return baseline[feature];
+    const stats = baseline.contexts.stats[contextKey(point, dimensions, baseline.contexts.flowBands)]?.[feature];
+    if (stats) return stats;
+  }
+  return baseline[feature];
+}
+
+/**
+ * z-score of a reading against its matching baseline, undefined when missing
+ */
+function featureDeviation(point: PumpDataPoint, baseline: AnomalyBaseline, feature: IsolationFeature): number | undefined {
+  const value = point[feature];
+  const stats = matchingStats(point, baseline, feature);
+  if (value === undefined || !Number.isFinite(value) || !stats || stats.std === 0) return undefined;
+  return (value - stats.mean) / stats.std;
+}
+
+function calculateStats(values: number[]): FeatureStats {
   const mean = values.reduce((a, b) => a + b, 0) / values.length;
   const squaredDiffs = values.map(v => Math.pow(v - mean, 2));
   const variance = squaredDiffs.reduce((a, b) => a + b, 0) / values.length;
@@ -98,133 +377,123 @@ function calculateStats(values: number[]): { mean: number; std: number } {
 }
 
 /**
- * Build simplified isolation forest
+ * z-scores of the features of a reading against their matching baselines; missing or non-finite
+ * readings stay undefined
  */
-function buildIsolationForest(data: PumpDataPoint[], nEstimators: number): {
-  splitFeature: 'kwhM3' | 'debit' | 'reservoir';
-  splitValue: number;
-  left: any;
-  right: any;
-}[] {
-  const trees = [];
-  
-  for (let i = 0; i < nEstimators; i++) {
-    // Subsample data
-    const sampleSize = Math.min(MAX_SAMPLES, data.length);
-    const sample = data.slice(0, sampleSize);
-    
-    // Build tree
-    const tree = buildTree(sample, 0, Math.ceil(Math.log2(sampleSize)));
-    trees.push(tree);
+function normalizePoint(
+  point: PumpDataPoint,
+  baseline: AnomalyBaseline,
+  features: IsolationFeature[]
+): NormalizedPoint {
+  const normalized: NormalizedPoint = {};
+  for (const feature of features) {
+    const deviation = featureDeviation(point, baseline, feature);
+    if (deviation !== undefined) normalized[feature] = deviation;
   }
-  
-  return trees;
+  return normalized;
+}
+
+/**
+ * Random subsample without replacement (partial Fisher-Yates shuffle)
+ */
+function subsample<T>(data: T[], size: number, random: RandomSource): T[] {
+  const indices = data.map((_, i) => i);
+  for (let i = 0; i < size; i++) {
+    const j = i + Math.floor(random() * (indices.length - i));
+    [indices[i], indices[j]] = [indices[j], indices[i]];
+  }
+  return indices.slice(0, size).map(i => data[i]);
 }
 
 /**
  * Build single isolation tree
  */
 function buildTree(
-  data: PumpDataPoint[],
+  data: NormalizedPoint[],
+  features: IsolationFeature[],
   currentHeight: number,
-  maxHeight: number
-): any {
-  if (data.length <= 1 || currentHeight >= maxHeight) {
-    return { isLeaf: true, size: data.length };
+  maxHeight: number,
+  random: RandomSource
+): IsolationNode {
+  if (data.length <= 1 || currentHeight >= maxHeight || features.length === 0) {
+    return { size: data.length };
   }
   
   // Random feature selection
-  const features: ('kwhM3' | 'debit' | 'reservoir')[] = ['kwhM3', 'debit', 'reservoir'];
-  const splitFeature = features[Math.floor(Math.random() * features.length)];
+  const feature = features[Math.floor(random() * features.length)];
   
-  // Random split value within feature range
-  const values = data.map(d => d[splitFeature]);
+  // Random split value within feature range (training points have every feature filled)
+  const values = data.map(d => d[feature] ?? 0);
   const min = Math.min(...values);
   const max = Math.max(...values);
-  const splitValue = min + Math.random() * (max - min);
-  
-  // Split data
-  const left = data.filter(d => d[splitFeature] < splitValue);
-  const right = data.filter(d => d[splitFeature] >= splitValue);
+  if (min === max) {
+    return { size: data.length };
+  }
+  const split = min + random() * (max - min);
   
   return {
-    splitFeature,
-    splitValue,
-    left: buildTree(left, currentHeight + 1, maxHeight),
-    right: buildTree(right, currentHeight + 1, maxHeight)
+    feature,
+    split,
+    size: data.length,
+    left: buildTree(data.filter((_, i) => values[i] < split), features, currentHeight + 1, maxHeight, random),
+    right: buildTree(data.filter((_, i) => values[i] >= split), features, currentHeight + 1, maxHeight, random)
   };
 }
 
 /**
- * Calculate anomaly score for a data point
+ * Standard isolation score s = 2^(-E[h(x)] / c(ψ)): close to 1 for anomalies, about 0.5 or less otherwise
  */
-function calculateAnomalyScore(
-  point: PumpDataPoint,
-  trees: any[],
-  baseline: any
-): number {
-  // Path length average across all trees
-  let totalPathLength = 0;
-  
-  for (const tree of trees) {
-    totalPathLength += getPathLength(point, tree, 0);
-  }
-  
-  const avgPathLength = totalPathLength / trees.length;
-  
-  // Normalize to 0-1 score (shorter path = more anomalous)
-  const maxPath = Math.ceil(Math.log2(MAX_SAMPLES));
-  const normalizedScore = 1 - (avgPathLength / maxPath);
-  
-  // Add statistical deviation component
-  const kwhM3ZScore = Math.abs(point.kwhM3 - baseline.kwhM3.mean) / baseline.kwhM3.std;
-  const statisticalScore = Math.min(1, kwhM3ZScore / 3); // Cap at 3 std deviations
-  
-  // Combined score
-  return normalizedScore * 0.6 + statisticalScore * 0.4;
+function isolationScore(point: NormalizedPoint, trees: IsolationNode[], sampleSize: number): number {
+  const totalPathLength = trees.reduce((sum, tree) => sum + getPathLength(point, tree, 0), 0);
+  const averagePath = totalPathLength / trees.length;
+  const normalization = averagePathLength(sampleSize);
+  return normalization > 0 ? Math.pow(2, -averagePath / normalization) : 0;
 }
 
 /**
  * Get path length in tree for a data point
+ * A reading missing the split feature goes down both branches, weighted by their training points.
  */
-function getPathLength(point: PumpDataPoint, tree: any, currentLength: number): number {
-  if (tree.isLeaf) {
-    return currentLength + calculateExpectedPath(tree.size);
+function getPathLength(point: NormalizedPoint, node: IsolationNode, currentLength: number): number {
+  if (!('feature' in node)) {
+    return currentLength + averagePathLength(node.size);
   }
   
-  const featureKey = tree.splitFeature as keyof PumpDataPoint;
-  const featureValue = point[featureKey] as number;
-  
-  if (featureValue < tree.splitValue) {
-    return getPathLength(point, tree.left, currentLength + 1);
-  } else {
-    return getPathLength(point, tree.right, currentLength + 1);
+  const value = point[node.feature];
+  if (value === undefined) {
+    const left = getPathLength(point, node.left, currentLength + 1);
+    const right = getPathLength(point, node.right, currentLength + 1);
+    return (node.left.size * left + node.right.size * right) / node.size;
   }
+  const next = value < node.split ? node.left : node.right;
+  return getPathLength(point, next, currentLength + 1);
 }
 
 /**
- * Calculate expected path length for external node
+ * c(n): average path length of an unsuccessful search in a binary search tree of n points,
+ * used both for external nodes and to normalize the score
  */
-function calculateExpectedPath(size: number): number {
+function averagePathLength(size: number): number {
   if (size <= 1) return 0;
-  return 2 * (Math.log(size - 1) + 0.5772156649) - 2 * (size - 1) / size;
+  if (size === 2) return 1;
+  return 2 * (Math.log(size - 1) + EULER_GAMMA) - (2 * (size - 1)) / size;
 }
 
 /**
  * Determine probable cause of anomaly
  */
-function determineProbableCause(point: PumpDataPoint, baseline: any): string {
+function determineProbableCause(point: PumpDataPoint, baseline: AnomalyBaseline): string {
   const causes: string[] = [];
   
   // Check kWh/m³ deviation
-  const kwhM3Deviation = (point.kwhM3 - baseline.kwhM3.mean) / baseline.kwhM3.std;
+  const kwhM3Deviation = featureDeviation(point, baseline, 'kwhM3') ?? 0;
   if (kwhM3Deviation > 2) {
     causes.push('Surconsommation énergétique');
   }
   
   // Check debit vs reservoir correlation
-  const debitDeviation = (point.debit - baseline.debit.mean) / baseline.debit.std;
-  if (debitDeviation > 1.5 && point.reservoir < baseline.reservoir.mean) {
+  const debitDeviation = featureDeviation(point, baseline, 'debit') ?? 0;
+  if (debitDeviation > 1.5 && (featureDeviation(point, baseline, 'reservoir') ?? 0) < 0) {
     causes.push('Fuite probable détectée');
   }
   
@@ -238,19 +507,30 @@ function determineProbableCause(point: PumpDataPoint, baseline: any): string {
     causes.push('Niveau réservoir critique');
   }
   
+  // Check instrumented sensors
+  if ((featureDeviation(point, baseline, 'vibration') ?? 0) > SENSOR_DEVIATION) {
+    causes.push('Vibrations anormales (roulements, cavitation)');
+  }
+  if ((featureDeviation(point, baseline, 'temperature') ?? 0) > SENSOR_DEVIATION) {
+    causes.push('Échauffement moteur');
+  }
+  if (Math.abs(featureDeviation(point, baseline, 'pressure') ?? 0) > SENSOR_DEVIATION) {
+    causes.push('Pression de refoulement anormale');
+  }
+  
   return causes.length > 0 ? causes.join(' + ') : 'Anomalie non identifiée';
 }
 
 /**
- * Calculate feature deviations
+ * Calculate feature deviations, against the baselines of the reading's context
  */
-function calculateFeatureDeviations(point: PumpDataPoint, baseline: any): {
+function calculateFeatureDeviations(point: PumpDataPoint, baseline: AnomalyBaseline): {
   kwhM3Deviation: number;
   debitDeviation: number;
   combinedScore: number;
 } {
-  const kwhM3Deviation = Math.abs(point.kwhM3 - baseline.kwhM3.mean) / baseline.kwhM3.std;
-  const debitDeviation = Math.abs(point.debit - baseline.debit.mean) / baseline.debit.std;
+  const kwhM3Deviation = Math.abs(featureDeviation(point, baseline, 'kwhM3') ?? 0);
+  const debitDeviation = Math.abs(featureDeviation(point, baseline, 'debit') ?? 0);
   
   return {
     kwhM3Deviation: Math.round(kwhM3Deviation * 100) / 100,
@@ -260,34 +540,154 @@ function calculateFeatureDeviations(point: PumpDataPoint, baseline: any): {
 }
 
 /**
- * Detect real-time anomaly from single reading
+ * Forest stored for the pump
+ * It is trained from the history, then stored, only when none is stored yet or it is stale.
+ * Returns null when there is no usable forest and the history is too short to train one.
  */
-export function detectRealTimeAnomaly(
+export async function loadAnomalyModel(
+  history: PumpDataPoint[],
+  stationId: string,
+  pumpId: string,
+  options?: RandomOptions
+): Promise<IsolationForestModel | null> {
+  const stored = (await getAnomalyModel(stationId, pumpId))?.model;
+  if (stored && !isModelStale(stored)) return stored;
+  if (history.length < MIN_TRAINING_POINTS) return null;
+
+  const model = trainIsolationForest(history, options);
+  await saveAnomalyModel({ id: `${stationId}-${pumpId}`, stationId, pumpId, model, trainedAt: model.trainedAt });
+  return model;
+}
+
+/**
+ * Score a live reading with the forest stored for the pump (see loadAnomalyModel)
+ */
+export async function detectRealTimeAnomaly(
   current: PumpDataPoint,
-  history: PumpDataPoint[]
-): AnomalyResult {
-  const results = detectAnomalies([...history, current]);
-  return results[results.length - 1];
+  history: PumpDataPoint[],
+  stationId: string,
+  pumpId: string,
+  options?: RandomOptions
+): Promise<AnomalyResult> {
+  const model = await loadAnomalyModel(history, stationId, pumpId, options);
+  return model ? scoreAnomaly(current, model) : detectAnomalies([current], options)[0];
 }
 
 /**
- * Generate anomaly score timeline for visualization
+ * Streaming detector: readings are pushed one at a time and scored against the current forest
+ * The forest is retrained on a sliding window of the latest readings every retrainEvery readings,
+ * so a push costs constant amortized time. A two-sided Page-Hinkley test on each feature's z-score
+ * detects a lasting change of regime (repair, new impeller, worn bearing). Its sums run across
+ * scheduled retrainings, so that a moderate shift builds up over several of them rather than being
+ * forgotten every retrainEvery readings, and restart only after a change: the window is cut at the
+ * estimated change point and the forest retrained on the new regime only, as soon as it has enough
+ * readings. Until then readings are not flagged, and drift is only tested once the forest has seen
+ * DRIFT_MIN_HISTORY readings.
+ */
+export function createStreamingDetector(options?: StreamingOptions): StreamingDetector {
+  const random = resolveRandom(options);
+  const windowSize = Math.max(MIN_TRAINING_POINTS, options?.windowSize ?? WINDOW_SIZE);
+  const retrainEvery = Math.max(1, options?.retrainEvery ?? RETRAIN_INTERVAL);
+  let model = options?.model ?? null;
+  let window: PumpDataPoint[] = [];
+  let sinceTraining = 0;
+  let drift: DriftState = {};
+  let relearning = false;
+
+  const retrain = () => {
+    model = trainIsolationForest(window, { random });
+    sinceTraining = 0;
+    relearning = false;
+  };
+
+  return {
+    push(point) {
+      window.push(point);
+      if (window.length > windowSize) window.shift();
+      sinceTraining++;
+
+      if (window.length >= MIN_TRAINING_POINTS && (!model || relearning || sinceTraining >= retrainEvery)) {
+        retrain();
+      }
+      if (!model) return unscoredResult(point, 'Insufficient data');
+      if (relearning) return unscoredResult(point, 'Réapprentissage après changement de régime');
+
+      const result: StreamingResult = scoreAnomaly(point, model);
+      const settled = model.trainingSize >= Math.min(windowSize, DRIFT_MIN_HISTORY);
+      const event = settled ? updateDrift(drift, result.attributions, point.timestamp) : null;
+      if (event) {
+        // Keep the readings after the change point only, and watch the new regime from scratch
+        window = window.filter(p => p.timestamp >= event.changedAt);
+        drift = {};
+        relearning = true;
+        if (window.length >= MIN_TRAINING_POINTS) retrain();
+        return { ...result, isAnomaly: false, confidence: 0, drift: event };
+      }
+      return result;
+    },
+    getModel: () => model,
+    getWindow: () => [...window]
+  };
+}
+
+// One-sided cumulative sums of (±z - δ) with their minimum and when it was reached
+interface DriftSum {
+  sum: number;
+  min: number;
+  minAt: number; // Timestamp of the reading that followed the minimum
+}
+
+type DriftState = Partial<Record<IsolationFeature, { up: DriftSum; down: DriftSum }>>;
+
+/**
+ * Page-Hinkley update: m_t = Σ(x - δ), alarm when m_t - min(m) > λ; the change point is where the
+ * minimum was reached. z-scores are against the forest's baseline, so the reference mean is 0.
+ */
+function updateDrift(state: DriftState, attributions: FeatureAttribution[], timestamp: number): DriftEvent | null {
+  for (const { feature, deviation } of attributions) {
+    if (deviation === undefined) continue;
+    const z = Math.min(DRIFT_CLIP, Math.max(-DRIFT_CLIP, deviation));
+    const sums = (state[feature] ??= {
+      up: { sum: 0, min: 0, minAt: timestamp },
+      down: { sum: 0, min: 0, minAt: timestamp }
+    });
+    for (const direction of ['up', 'down'] as const) {
+      const sum = sums[direction];
+      // The minimum is taken before the reading, which then opens the new regime
+      if (sum.sum <= sum.min) {
+        sum.min = sum.sum;
+        sum.minAt = timestamp;
+      }
+      sum.sum += (direction === 'up' ? z : -z) - DRIFT_DELTA;
+      if (sum.sum - sum.min > DRIFT_LAMBDA) {
+        return { feature, direction, changedAt: sum.minAt, detectedAt: timestamp };
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Generate anomaly score timeline for visualization, from a streaming detector
  */
 export function generateAnomalyTimeline(
   data: PumpDataPoint[],
-  windowSize: number = 7
-): { timestamp: number; score: number; threshold: number }[] {
-  const timeline: { timestamp: number; score: number; threshold: number }[] = [];
+  windowSize: number = WINDOW_SIZE,
+  options?: RandomOptions
+): { timestamp: number; score: number; threshold: number; drift: boolean }[] {
+  const detector = createStreamingDetector({ ...options, windowSize });
+  const timeline: { timestamp: number; score: number; threshold: number; drift: boolean }[] = [];
   
-  for (let i = windowSize; i < data.length; i++) {
-    const window = data.slice(i - windowSize, i);
-    const results = detectAnomalies(window);
-    const latest = results[results.length - 1];
+  for (const point of data) {
+    const result = detector.push(point);
+    const model = detector.getModel();
+    if (!model) continue;
     
     timeline.push({
-      timestamp: data[i].timestamp,
-      score: latest.score,
-      threshold: ANOMALY_THRESHOLD
+      timestamp: point.timestamp,
+      score: result.score,
+      threshold: model.threshold,
+      drift: result.drift !== undefined
     });
   }
   
@@ -310,21 +710,44 @@ export function exportIsolationForestConfig(): {
       contamination: CONTAMINATION,
       nEstimators: N_ESTIMATORS,
       maxSamples: MAX_SAMPLES,
-      anomalyThreshold: ANOMALY_THRESHOLD
+      anomalyThreshold: ANOMALY_THRESHOLD,
+      featureCount: FEATURES.length,
+      minSensorCoverage: MIN_SENSOR_COVERAGE,
+      modelMaxAgeDays: MODEL_MAX_AGE_MS / (24 * 3600000),
+      streamingWindow: WINDOW_SIZE,
+      retrainInterval: RETRAIN_INTERVAL,
+      driftDelta: DRIFT_DELTA,
+      driftLambda: DRIFT_LAMBDA,
+      driftMinHistory: DRIFT_MIN_HISTORY,
+      hourBlock: HOUR_BLOCK,
+      flowBands: FLOW_BANDS,
+      minContextPoints: MIN_CONTEXT_POINTS
     },
-    description: 'Unsupervised anomaly detection for pump monitoring using isolation trees and statistical deviation'
+    description: 'Unsupervised anomaly detection for pump monitoring: isolation trees grown on random subsamples of per-feature z-scores against baselines conditioned on hour of day, pumps on line and flow band (kWh/m³, flow, reservoir level, and vibration, temperature and pressure when instrumented; missing readings follow both branches), scores normalized by c(ψ), threshold from the contamination rate; trained forests are stored per station and pump; a streaming detector retrains on a sliding window and cuts it at changes of regime found by a Page-Hinkley test'
   };
 }
 
 /**
- * Feature importance for explainability
+ * Feature importance for explainability, read from the trained trees
+ * Each split counts for how unevenly it divides its points (cutting off a few outliers scores
+ * close to 1, an even split 0), more when it is close to the root. Importances sum to 1.
  */
-export function getFeatureImportance(): { feature: string; importance: number }[] {
-  return [
-    { feature: 'kWh/m³', importance: 0.45 },
-    { feature: 'Débit', importance: 0.25 },
-    { feature: 'Niveau réservoir', importance: 0.15 },
-    { feature: 'Vibration', importance: 0.10 },
-    { feature: 'Température', importance: 0.05 }
-  ];
+export function getFeatureImportance(model: IsolationForestModel): { feature: string; importance: number }[] {
+  const totals: Partial<Record<IsolationFeature, number>> = {};
+  const visit = (node: IsolationNode, depth: number) => {
+    if (!('feature' in node)) return;
+    const isolation = 1 - (2 * Math.min(node.left.size, node.right.size)) / node.size;
+    totals[node.feature] = (totals[node.feature] ?? 0) + isolation / (depth + 1);
+    visit(node.left, depth + 1);
+    visit(node.right, depth + 1);
+  };
+  model.trees.forEach(tree => visit(tree, 0));
+
+  const sum = model.features.reduce((s, feature) => s + (totals[feature] ?? 0), 0);
+  return model.features
+    .map(feature => ({
+      feature: FEATURE_LABELS[feature],
+      importance: sum > 0 ? (totals[feature] ?? 0) / sum : 1 / model.features.length
+    }))
+    .sort((a, b) => b.importance - a.importance);
 }
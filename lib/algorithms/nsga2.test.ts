@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest';
+import { assignCrowdingDistance, fastNonDominatedSort, optimizePumpSchedule } from './nsga2';
+import type { PumpScheduleParams } from './schedule-model';
+import {
+  ZIGA_STATION,
+  buildStationReservoirs,
+  generateDemandProfile,
+  generateTariffSchedule
+} from '../data/ziga-mock-data';
+
+type Individual = Parameters<typeof fastNonDominatedSort>[0][number];
+
+function individual(cost: number, stability: number, switches: number, constraintViolation = 0): Individual {
+  return {
+    objectives: { cost, stability, switches },
+    constraintViolation,
+    rank: -1,
+    crowdingDistance: 0
+  } as Individual;
+}
+
+describe('fastNonDominatedSort', () => {
+  it('splits a population into successive Pareto fronts and sets ranks', () => {
+    const population = [
+      individual(100, 10, 4), // front 0
+      individual(120, 5, 4), // front 0
+      individual(130, 12, 6), // dominated by 0 and 1
+      individual(90, 20, 2), // front 0
+      individual(140, 13, 7) // dominated by 2
+    ];
+    const fronts = fastNonDominatedSort(population);
+
+    expect(fronts.map(front => [...front].sort())).toEqual([[0, 1, 3], [2], [4]]);
+    expect(population.map(p => p.rank)).toEqual([0, 0, 1, 0, 2]);
+  });
+
+  it('ranks feasible solutions ahead of infeasible ones, and those by violation', () => {
+    const population = [
+      individual(500, 50, 20), // feasible but expensive
+      individual(10, 1, 0, 2), // cheap, violates more
+      individual(20, 1, 0, 1) // cheap, violates less
+    ];
+    const fronts = fastNonDominatedSort(population);
+
+    expect(fronts).toEqual([[0], [2], [1]]);
+  });
+});
+
+describe('assignCrowdingDistance', () => {
+  it('gives boundary solutions infinite distance and sums normalized gaps inside', () => {
+    const population = [
+      individual(0, 10, 0),
+      individual(5, 5, 0),
+      individual(10, 0, 0)
+    ];
+    assignCrowdingDistance(population, [0, 1, 2]);
+
+    expect(population[0].crowdingDistance).toBe(Infinity);
+    expect(population[2].crowdingDistance).toBe(Infinity);
+    // (10 - 0) / 10 on cost, (10 - 0) / 10 on stability, switches all equal
+    expect(population[1].crowdingDistance).toBeCloseTo(2);
+  });
+});
+
+describe('optimizePumpSchedule', () => {
+  const params: PumpScheduleParams = {
+    demand: generateDemandProfile(new Date(2024, 5, 1), 60, 24, { seed: 7 }),
+    tariffs: generateTariffSchedule(),
+    reservoirs: buildStationReservoirs(),
+    pumps: ZIGA_STATION.pumps.map(p => ({
+      id: p.id,
+      power: p.power,
+      efficiency: p.efficiency,
+      maxFlow: p.maxFlow
+    })),
+    constraints: { minCosPhi: ZIGA_STATION.electrical.cosPhiMin, maxActivePumps: 3 }
+  };
+  const options = { populationSize: 12, generations: 5 };
+
+  it('returns the same planning for the same seed', () => {
+    const first = optimizePumpSchedule(params, { ...options, seed: 42 });
+    const second = optimizePumpSchedule(params, { ...options, seed: 42 });
+
+    expect(first.seed).toBe(42);
+    expect(second.pumpPlanning).toEqual(first.pumpPlanning);
+    expect(second.cost).toBe(first.cost);
+  });
+
+  it('records a generated seed that replays the run', () => {
+    const first = optimizePumpSchedule(params, options);
+    const replay = optimizePumpSchedule(params, { ...options, seed: first.seed });
+
+    expect(first.seed).toBeTypeOf('number');
+    expect(replay.pumpPlanning).toEqual(first.pumpPlanning);
+  });
+});
@@ -1,39 +1,94 @@
-// NSGA-II Simplified Implementation for ONEA-OPT
+// NSGA-II Implementation for ONEA-OPT
 // Multi-objective optimization for pump scheduling
 
-export interface PumpScheduleParams {
-  demand: number[]; // 24h demand in m³/h
-  tariffs: number[]; // 24h tariff in FCFA/kWh
-  reservoirLevel: number; // Current reservoir level %
-  pumps: {
-    id: string;
-    power: number; // kW
-    efficiency: number; // kWh/m³
-    maxFlow: number; // m³/h
-  }[];
-  constraints: {
-    minReservoir: number; // %
-    maxReservoir: number; // %
-    minCosPhi: number;
-    maxActivePumps: number;
-  };
+import {
+  simulateScenarios,
+  calculateUniformCost,
+  buildLockMask,
+  compensateReactivePower,
+  stepPowerLimits,
+  getStepCount,
+  DEFAULT_STEP_MINUTES,
+  DEFAULT_HORIZON_HOURS,
+  type PumpScheduleParams,
+  type PumpSwitchingReport,
+  type ScenarioSimulation,
+  type SchedulePump
+} from './schedule-model';
+import { createRng, generateSeed, type RandomOptions, type RandomSource } from './rng';
+import { diagnoseSchedule, type ScheduleDiagnostics } from './diagnostics';
+
+export type {
+  PumpScheduleParams,
+  PumpAvailabilityWindow,
+  PumpLock,
+  PumpSwitchingReport,
+  SchedulePump,
+  CapacitorBank,
+  GridOutage,
+  Genset,
+  Battery,
+  PumpCurve,
+  SystemCurve,
+  VariableSpeedDrive,
+  ReservoirParams
+} from './schedule-model';
+
+export interface ScheduleObjectives {
+  cost: number; // FCFA, expected over the demand scenarios - minimize
+  stability: number; // Cumulated reservoir level variation (%) - minimize
+  switches: number; // Pump starts/stops over the horizon - minimize
 }
 
 export interface OptimizedSchedule {
-  planning: number[]; // 0-1 for each hour (pumps active count)
+  planning: number[]; // Active pump count for each time step
+  pumpPlanning: number[][]; // pumpPlanning[step][pumpIndex] = 1 when the pump runs
+  capacitorPlanning: number[]; // Capacitor steps engaged at each time step
+  speedPlanning: number[][]; // Speed ratio of each pump at each time step (1 = full speed, no drive)
+  specificEnergy: number; // kWh/m³ pumped over the horizon
+  stepMinutes: number; // Time step length of the plannings
+  horizonHours: number;
   cost: number; // FCFA
   savings: number; // vs uniform schedule
   cosPhi: number;
-  reservoirLevels: number[]; // 24h evolution
-  fitness: number;
+  reservoirLevels: number[]; // Combined level (%) over the horizon (steps + 1 points)
+  reservoirTrajectories: Record<string, number[]>; // Level (%) of each reservoir
+  objectives: ScheduleObjectives;
+  constraintViolation: number; // 0 when reservoir (in every demand scenario), Cos φ, switching, subscribed power and genset constraints are met
+  expectedCost: number; // FCFA - mean over the forecast and the demand scenarios
+  scenarioCount: number; // Demand trajectories evaluated (1 without scenarios)
+  levelEnvelope: { min: number[]; max: number[] }; // Combined level range (%) over the demand scenarios
+  startupCost: number; // FCFA of start-up energy, included in cost
+  peakPower: number; // kW - highest power drawn from the grid over the horizon
+  demandCharge: number; // FCFA of subscribed power and overrun penalty, included in cost
+  reactivePenalty: number; // FCFA of Cos φ penalty, included in cost
+  onGenset: boolean[]; // Steps pumped on the genset during grid outages
+  fuelLitres: number; // Diesel burnt by the genset
+  gensetCost: number; // FCFA of diesel, included in cost
+  gridImport: number[]; // kWh drawn from the grid per step
+  solarEnergy: number; // kWh of PV used by the pumps, directly or through the battery
+  batterySoc: number[]; // Battery state of charge (%) at each step boundary
+  switchingReports: PumpSwitchingReport[]; // Starts and run/rest time violations per pump
+}
+
+export interface Nsga2Result extends OptimizedSchedule {
+  paretoFront: OptimizedSchedule[]; // Non-dominated solutions, sorted by cost
+  diagnostics: ScheduleDiagnostics; // Constraints the recommended solution breaks, when no solution meets them all
+  seed?: number; // Seed of the run, absent when a custom random source was given
 }
 
 interface Individual {
-  chromosome: number[]; // 24 genes (0-3 pumps active)
-  fitness: number;
+  chromosome: number[][]; // Time steps × pumps genes (1 = pump running)
+  capacitors: number[]; // Capacitor steps engaged at each time step
+  speeds: number[][]; // Speed ratio per time step and pump, 1 for pumps without drive
+  objectives: ScheduleObjectives;
+  constraintViolation: number;
   cost: number;
   reservoirViolation: number;
+  switchingViolation: number;
   cosPhi: number;
+  rank: number; // Non-domination front index (0 = Pareto front)
+  crowdingDistance: number;
 }
 
 // NSGA-II Parameters (default values, overridable via function options)
@@ -41,36 +96,66 @@ const POPULATION_SIZE = 50;
 const GENERATIONS = 20;
 const CROSSOVER_RATE = 0.9;
 const MUTATION_RATE = 0.1;
-const ELITE_COUNT = 5;
+const TOURNAMENT_SIZE = 3;
+const SPEED_MUTATION_STEP = 0.1; // Largest drive speed change of a mutation
 
-export interface Nsga2Options {
+export interface Nsga2Options extends RandomOptions {
   populationSize?: number;
   generations?: number;
   crossoverRate?: number;
   mutationRate?: number;
-  eliteCount?: number;
+  seedPlannings?: number[][][]; // Per-pump plannings (e.g. yesterday's plan) injected in the initial population
+  onGeneration?: (progress: Nsga2Progress) => void; // Called after each generation
+}
+
+export interface Nsga2Progress {
+  generation: number; // 1-based
+  generations: number;
+  bestCost: number; // FCFA - cheapest feasible solution, or least infeasible one
+  frontSize: number; // Solutions on the current Pareto front
+  feasible: boolean; // Whether bestCost belongs to a feasible solution
 }
 
 /**
- * Main optimization function - NSGA-II simplified
+ * Main optimization function - NSGA-II
+ * Ranks solutions by Pareto dominance over cost, reservoir stability and pump switches,
+ * and returns the cheapest solution of the final front along with the whole front.
+ * With demand scenarios, cost and stability are expected values and the reservoir
+ * constraint must hold in the worst scenario.
  */
 export function optimizePumpSchedule(
   params: PumpScheduleParams,
   options?: Nsga2Options
-): OptimizedSchedule {
-  const { constraints } = params;
-
+): Nsga2Result {
   const populationSize = options?.populationSize ?? POPULATION_SIZE;
   const generations = options?.generations ?? GENERATIONS;
   const crossoverRate = options?.crossoverRate ?? CROSSOVER_RATE;
   const mutationRate = options?.mutationRate ?? MUTATION_RATE;
-  const eliteCount = options?.eliteCount ?? ELITE_COUNT;
-  
-  // Generate initial population
-  let population = initializePopulation(populationSize, constraints.maxActivePumps);
+  // Seeded unless a custom random source is given, so that any run can be replayed
+  let seed = options?.seed;
+  let random = options?.random;
+  if (!random) {
+    seed ??= generateSeed();
+    random = createRng(seed);
+  }
+  const fixedGenes = buildLockMask(params);
+  const powerLimits = stepPowerLimits(params);
   
-  // Evaluate initial population
-  population = population.map(ind => evaluateIndividual(ind, params));
+  // Generate and evaluate initial population, warm-started from the seed plannings
+  const seeds = (options?.seedPlannings ?? [])
+    .filter(planning => planning.length === fixedGenes.length)
+    .slice(0, populationSize)
+    .map(planning => {
+      const chromosome = planning.map(step => [...step]);
+      chromosome.forEach((stepPlan, step) => enforceMaxActivePumps(
+        stepPlan, params.pumps, params.constraints.maxActivePumps, powerLimits[step]
+      ));
+      enforceFixedGenes(chromosome, fixedGenes);
+      return createIndividual(chromosome, compensateReactivePower(chromosome, params), fullSpeed(chromosome));
+    });
+  let population = [...seeds, ...initializePopulation(populationSize - seeds.length, params, fixedGenes, random)]
+    .map(ind => evaluateIndividual(ind, params));
+  assignRankAndCrowding(population);
   
   // Evolution loop
   for (let gen = 0; gen < generations; gen++) {
@@ -78,13 +163,13 @@ export function optimizePumpSchedule(
     const offspring: Individual[] = [];
     
     while (offspring.length < populationSize) {
-      // Tournament selection
-      const parent1 = tournamentSelection(population);
-      const parent2 = tournamentSelection(population);
+      // Crowded tournament selection
+      const parent1 = tournamentSelection(population, random);
+      const parent2 = tournamentSelection(population, random);
       
       // Crossover
-      if (Math.random() < crossoverRate) {
-        const [child1, child2] = crossover(parent1, parent2);
+      if (random() < crossoverRate) {
+        const [child1, child2] = crossover(parent1, parent2, random);
         offspring.push(child1, child2);
       } else {
         offspring.push({ ...parent1 }, { ...parent2 });
@@ -92,276 +177,524 @@ export function optimizePumpSchedule(
     }
     
     // Mutation
-    for (let i = eliteCount; i < offspring.length; i++) {
-      if (Math.random() < mutationRate) {
-        offspring[i] = mutate(offspring[i], constraints.maxActivePumps);
+    for (let i = 0; i < offspring.length; i++) {
+      if (random() < mutationRate) {
+        offspring[i] = mutate(offspring[i], params, fixedGenes, random);
       }
     }
     
     // Evaluate offspring
     const evaluatedOffspring = offspring.map(ind => evaluateIndividual(ind, params));
     
-    // Combine and select next generation (elitism)
-    const combined = [...population, ...evaluatedOffspring];
-    combined.sort((a, b) => a.fitness - b.fitness);
+    // Combine parents and offspring, then keep the best fronts (elitism)
+    population = selectNextGeneration([...population, ...evaluatedOffspring], populationSize);
     
-    population = combined.slice(0, populationSize);
+    options?.onGeneration?.(summarizeGeneration(population, gen + 1, generations));
   }
   
-  // Return best solution
-  const best = population[0];
   const uniformCost = calculateUniformCost(params);
+  const toSchedule = (ind: Individual) =>
+    buildOptimizedSchedule(ind.chromosome, params, uniformCost, ind.capacitors, ind.speeds);
   
+  // Final Pareto front, without duplicated plannings
+  const seen = new Set<string>();
+  const front = population
+    .filter(ind => ind.rank === 0)
+    .filter(ind => {
+      const key = ind.chromosome
+        .map((step, i) => `${step.join('')}:${ind.capacitors[i]}:${ind.speeds[i].join('/')}`)
+        .join(',');
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .sort((a, b) => a.cost - b.cost);
+  
+  // Recommended solution: cheapest point of the front
+  const recommended = front[0];
   return {
-    planning: best.chromosome,
-    cost: best.cost,
-    savings: uniformCost - best.cost,
-    cosPhi: best.cosPhi,
-    reservoirLevels: simulateReservoir(best.chromosome, params),
-    fitness: best.fitness
+    ...toSchedule(recommended),
+    paretoFront: front.map(toSchedule),
+    diagnostics: diagnoseSchedule(recommended.chromosome, params, recommended.capacitors, recommended.speeds),
+    seed
   };
 }
 
 /**
- * Initialize random population
+ * Progress snapshot of the current population
  */
-function initializePopulation(size: number, maxPumps: number): Individual[] {
-  return Array.from({ length: size }, () => ({
-    chromosome: Array.from({ length: 24 }, () => Math.floor(Math.random() * (maxPumps + 1))),
-    fitness: Infinity,
-    cost: 0,
-    reservoirViolation: 0,
-    cosPhi: 0.95
-  }));
+function summarizeGeneration(population: Individual[], generation: number, generations: number): Nsga2Progress {
+  const front = population.filter(ind => ind.rank === 0);
+  const feasible = front.filter(ind => ind.constraintViolation === 0);
+  const best = feasible.length > 0
+    ? feasible.reduce((a, b) => (b.cost < a.cost ? b : a))
+    : front.reduce((a, b) => (b.constraintViolation < a.constraintViolation ? b : a));
+  
+  return {
+    generation,
+    generations,
+    bestCost: best.cost,
+    frontSize: front.length,
+    feasible: feasible.length > 0
+  };
 }
 
 /**
- * Evaluate individual fitness
+ * Initialize random population
+ * Each pump alternates runs and rests no shorter than the minimum run/rest times. Half of the
+ * individuals start with capacitor steps matched to their pumps, the other half at random.
  */
-function evaluateIndividual(individual: Individual, params: PumpScheduleParams): Individual {
-  const { demand, tariffs, reservoirLevel, pumps, constraints } = params;
-  
-  let totalCost = 0;
-  let reservoirViolation = 0;
-  let currentReservoir = reservoirLevel;
-  const avgPumpEfficiency = pumps.reduce((sum, p) => sum + p.efficiency, 0) / pumps.length;
+function initializePopulation(
+  size: number,
+  params: PumpScheduleParams,
+  fixedGenes: (number | null)[][],
+  random: RandomSource
+): Individual[] {
+  const { pumps, constraints, capacitorBank } = params;
+  const steps = getStepCount(params);
+  const { minOnSteps, minOffSteps } = minRunSteps(params);
+  const stepsPerHour = 60 / (params.stepMinutes ?? DEFAULT_STEP_MINUTES);
+  const powerLimits = stepPowerLimits(params);
   
-  for (let hour = 0; hour < 24; hour++) {
-    const pumpsActive = individual.chromosome[hour];
-    const hourlyDemand = demand[hour];
-    const hourlyTariff = tariffs[hour];
+  return Array.from({ length: size }, () => {
+    // Random duty cycle per individual, so the population covers low to high pumping
+    const duty = random();
+    const chromosome = Array.from({ length: steps }, () => pumps.map(() => 0));
     
-    // Calculate production capacity
-    const productionCapacity = pumpsActive * pumps[0].maxFlow;
-    const actualProduction = Math.min(productionCapacity, hourlyDemand * 1.2);
-    
-    // Calculate energy consumption
-    const energyKWh = actualProduction * avgPumpEfficiency;
-    const hourlyCost = energyKWh * hourlyTariff;
-    totalCost += hourlyCost;
+    // Random choice of which pumps run, in random order so maxActivePumps does not favor one
+    for (const p of shuffle(pumps.map((_, index) => index), random)) {
+      let on = random() < duty;
+      let step = 0;
+      while (step < steps) {
+        const minLength = Math.max(1, on ? minOnSteps : minOffSteps);
+        const length = minLength + Math.floor(random() * 4 * stepsPerHour);
+        for (let s = step; s < Math.min(steps, step + length); s++) {
+          chromosome[s][p] = on ? 1 : 0;
+        }
+        step += length;
+        on = random() < duty;
+      }
+    }
     
-    // Update reservoir level
-    const netFlow = actualProduction - hourlyDemand;
-    currentReservoir += (netFlow / 1000) * 100; // Convert to percentage
+    chromosome.forEach((stepPlan, step) => enforceMaxActivePumps(
+      stepPlan, pumps, constraints.maxActivePumps, powerLimits[step]
+    ));
+    enforceFixedGenes(chromosome, fixedGenes);
     
-    // Check constraints
-    if (currentReservoir < constraints.minReservoir) {
-      reservoirViolation += constraints.minReservoir - currentReservoir;
-    }
-    if (currentReservoir > constraints.maxReservoir) {
-      reservoirViolation += currentReservoir - constraints.maxReservoir;
-    }
-  }
-  
-  // Calculate Cos φ (power factor)
-  const avgPumpsActive = individual.chromosome.reduce((a, b) => a + b, 0) / 24;
-  const loadFactor = avgPumpsActive / pumps.length;
-  const cosPhi = 0.85 + loadFactor * 0.15; // Simplified model
-  const cosPhiPenalty = cosPhi < constraints.minCosPhi ? (constraints.minCosPhi - cosPhi) * 100000 : 0;
-  
-  // Multi-objective fitness (minimize)
-  const fitness = totalCost + 
-    reservoirViolation * 1000 + // Heavy penalty for constraint violation
-    cosPhiPenalty +
-    (individual.chromosome.reduce((a, b) => a + b, 0) * 10); // Prefer fewer pump switches
-  
-  return {
-    ...individual,
-    fitness,
-    cost: Math.round(totalCost),
-    reservoirViolation,
-    cosPhi: Math.round(cosPhi * 100) / 100
-  };
+    const capacitors = random() < 0.5
+      ? compensateReactivePower(chromosome, params)
+      : chromosome.map(() => Math.floor(random() * ((capacitorBank?.steps ?? 0) + 1)));
+    return createIndividual(chromosome, capacitors, fullSpeed(chromosome));
+  });
 }
 
 /**
- * Tournament selection
+ * Minimum run and rest times converted to time steps
  */
-function tournamentSelection(population: Individual[]): Individual {
-  const tournamentSize = 3;
-  let best = population[Math.floor(Math.random() * population.length)];
-  
-  for (let i = 1; i < tournamentSize; i++) {
-    const contender = population[Math.floor(Math.random() * population.length)];
-    if (contender.fitness < best.fitness) {
-      best = contender;
-    }
-  }
-  
-  return best;
+function minRunSteps(params: PumpScheduleParams): { minOnSteps: number; minOffSteps: number } {
+  const stepHours = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) / 60;
+  return {
+    minOnSteps: Math.ceil((params.constraints.minOnTime ?? 0) / stepHours),
+    minOffSteps: Math.ceil((params.constraints.minOffTime ?? 0) / stepHours)
+  };
 }
 
 /**
- * Single-point crossover
+ * Speed genes at full speed: drives then move by small steps, since far below full speed
+ * the pumps no longer overcome the static head
  */
-function crossover(parent1: Individual, parent2: Individual): [Individual, Individual] {
-  const crossoverPoint = Math.floor(Math.random() * 24);
-  
-  const child1: Individual = {
-    chromosome: [
-      ...parent1.chromosome.slice(0, crossoverPoint),
-      ...parent2.chromosome.slice(crossoverPoint)
-    ],
-    fitness: Infinity,
+function fullSpeed(chromosome: number[][]): number[][] {
+  return chromosome.map(stepPlan => stepPlan.map(() => 1));
+}
+
+function clampSpeed(speed: number, minSpeed: number): number {
+  return Math.round(Math.max(minSpeed, Math.min(1, speed)) * 100) / 100;
+}
+
+function hasDrives(params: PumpScheduleParams): boolean {
+  return params.pumps.some(pump => pump.vfd !== undefined);
+}
+
+function createIndividual(chromosome: number[][], capacitors: number[], speeds: number[][]): Individual {
+  return {
+    chromosome,
+    capacitors,
+    speeds,
+    objectives: { cost: Infinity, stability: Infinity, switches: Infinity },
+    constraintViolation: Infinity,
     cost: 0,
     reservoirViolation: 0,
-    cosPhi: 0
+    switchingViolation: 0,
+    cosPhi: 0,
+    rank: Infinity,
+    crowdingDistance: 0
   };
+}
+
+function shuffle<T>(items: T[], random: RandomSource): T[] {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+/**
+ * Simulate a per-pump planning and package it as an optimizer result
+ * Shared by every solver so that their results compare on the same model.
+ */
+export function buildOptimizedSchedule(
+  pumpPlanning: number[][],
+  params: PumpScheduleParams,
+  uniformCost: number = calculateUniformCost(params),
+  capacitorPlanning: number[] = compensateReactivePower(pumpPlanning, params),
+  speedPlanning: number[][] = fullSpeed(pumpPlanning)
+): OptimizedSchedule {
+  const scenarios = simulateScenarios(pumpPlanning, params, capacitorPlanning, speedPlanning);
+  const simulation = scenarios.nominal;
+  const cost = Math.round(simulation.cost);
+  const pumped = simulation.production.reduce((a, b) => a + b, 0);
   
-  const child2: Individual = {
-    chromosome: [
-      ...parent2.chromosome.slice(0, crossoverPoint),
-      ...parent1.chromosome.slice(crossoverPoint)
-    ],
-    fitness: Infinity,
-    cost: 0,
-    reservoirViolation: 0,
-    cosPhi: 0
+  return {
+    planning: simulation.pumpsActive,
+    pumpPlanning,
+    capacitorPlanning,
+    speedPlanning,
+    specificEnergy: pumped > 0
+      ? Math.round((simulation.energy.reduce((a, b) => a + b, 0) / pumped) * 1000) / 1000
+      : 0,
+    stepMinutes: params.stepMinutes ?? DEFAULT_STEP_MINUTES,
+    horizonHours: params.horizonHours ?? DEFAULT_HORIZON_HOURS,
+    cost,
+    savings: uniformCost - cost,
+    cosPhi: Math.round(simulation.cosPhi * 100) / 100,
+    reservoirLevels: simulation.reservoirLevels,
+    reservoirTrajectories: simulation.reservoirTrajectories,
+    objectives: {
+      cost: scenarios.expectedCost,
+      stability: Math.round(scenarios.expectedLevelVariation * 10) / 10,
+      switches: simulation.switches
+    },
+    constraintViolation: constraintViolationOf(scenarios, params),
+    expectedCost: Math.round(scenarios.expectedCost),
+    scenarioCount: scenarios.scenarioCount,
+    levelEnvelope: scenarios.levelEnvelope,
+    startupCost: Math.round(simulation.startupCost),
+    peakPower: simulation.peakPower,
+    demandCharge: Math.round(simulation.demandCharge),
+    reactivePenalty: Math.round(simulation.reactivePenalty),
+    onGenset: simulation.onGenset,
+    fuelLitres: Math.round(simulation.fuelLitres),
+    gensetCost: Math.round(simulation.gensetCost),
+    gridImport: simulation.gridImport,
+    solarEnergy: Math.round(simulation.solarEnergy),
+    batterySoc: simulation.batterySoc,
+    switchingReports: simulation.switchingReports
   };
-  
-  return [child1, child2];
 }
 
 /**
- * Mutation - random bit flip
+ * Total constraint violation: reservoir limits in the worst demand scenario, Cos φ,
+ * pump switching rules, subscribed power and genset rating during outages
+ */
+function constraintViolationOf(scenarios: ScenarioSimulation, params: PumpScheduleParams): number {
+  const simulation = scenarios.nominal;
+  const cosPhiViolation = Math.max(0, params.constraints.minCosPhi - simulation.cosPhi) * 100; // In Cos φ points
+  const powerViolation = params.powerTariff
+    ? (simulation.powerOverrun / params.powerTariff.subscribedPower) * 100 // In % of subscribed power
+    : 0;
+  return scenarios.worstReservoirViolation + cosPhiViolation + simulation.switchingViolation + powerViolation
+    + simulation.gensetOverload;
+}
+
+/**
+ * Evaluate individual objectives and constraint violation
  */
-function mutate(individual: Individual, maxPumps: number): Individual {
-  const mutationPoint = Math.floor(Math.random() * 24);
-  const newChromosome = [...individual.chromosome];
-  newChromosome[mutationPoint] = Math.floor(Math.random() * (maxPumps + 1));
+function evaluateIndividual(individual: Individual, params: PumpScheduleParams): Individual {
+  const scenarios = simulateScenarios(individual.chromosome, params, individual.capacitors, individual.speeds);
+  const simulation = scenarios.nominal;
   
   return {
     ...individual,
-    chromosome: newChromosome
+    objectives: {
+      cost: scenarios.expectedCost,
+      stability: Math.round(scenarios.expectedLevelVariation * 10) / 10,
+      switches: simulation.switches
+    },
+    constraintViolation: constraintViolationOf(scenarios, params),
+    cost: Math.round(scenarios.expectedCost),
+    reservoirViolation: scenarios.worstReservoirViolation,
+    switchingViolation: simulation.switchingViolation,
+    cosPhi: Math.round(simulation.cosPhi * 100) / 100
   };
 }
 
 /**
- * Calculate uniform schedule cost (baseline)
+ * Constrained Pareto dominance (Deb): a feasible solution dominates an infeasible one,
+ * infeasible solutions are compared by violation, feasible ones by their objectives.
  */
-function calculateUniformCost(params: PumpScheduleParams): number {
-  const { demand, tariffs, pumps } = params;
-  const avgPumpEfficiency = pumps.reduce((sum, p) => sum + p.efficiency, 0) / pumps.length;
+function dominates(a: Individual, b: Individual): boolean {
+  if (a.constraintViolation !== b.constraintViolation &&
+      (a.constraintViolation > 0 || b.constraintViolation > 0)) {
+    return a.constraintViolation < b.constraintViolation;
+  }
   
-  let totalCost = 0;
+  const objA = objectiveVector(a);
+  const objB = objectiveVector(b);
+  let strictlyBetter = false;
   
-  for (let hour = 0; hour < 24; hour++) {
-    const hourlyDemand = demand[hour];
-    const hourlyTariff = tariffs[hour];
-    const energyKWh = hourlyDemand * avgPumpEfficiency;
-    totalCost += energyKWh * hourlyTariff;
+  for (let i = 0; i < objA.length; i++) {
+    if (objA[i] > objB[i]) return false;
+    if (objA[i] < objB[i]) strictlyBetter = true;
   }
   
-  return Math.round(totalCost);
+  return strictlyBetter;
+}
+
+function objectiveVector(ind: Individual): number[] {
+  return [ind.objectives.cost, ind.objectives.stability, ind.objectives.switches];
 }
 
 /**
- * Simulate reservoir levels over 24h
+ * Fast non-dominated sorting - returns fronts of population indices and sets each rank
  */
-function simulateReservoir(planning: number[], params: PumpScheduleParams): number[] {
-  const { demand, reservoirLevel, pumps } = params;
-  const levels: number[] = [reservoirLevel];
-  let currentLevel = reservoirLevel;
+export function fastNonDominatedSort(population: Individual[]): number[][] {
+  const dominatedBy: number[][] = population.map(() => []);
+  const dominationCount = population.map(() => 0);
+  const fronts: number[][] = [[]];
+  
+  for (let p = 0; p < population.length; p++) {
+    for (let q = p + 1; q < population.length; q++) {
+      if (dominates(population[p], population[q])) {
+        dominatedBy[p].push(q);
+        dominationCount[q]++;
+      } else if (dominates(population[q], population[p])) {
+        dominatedBy[q].push(p);
+        dominationCount[p]++;
+      }
+    }
+  }
   
-  for (let hour = 0; hour < 24; hour++) {
-    const pumpsActive = planning[hour];
-    const production = pumpsActive * pumps[0].maxFlow;
-    const netFlow = production - demand[hour];
-    currentLevel += (netFlow / 1000) * 100;
-    levels.push(Math.max(0, Math.min(100, currentLevel)));
+  for (let p = 0; p < population.length; p++) {
+    if (dominationCount[p] === 0) {
+      population[p].rank = 0;
+      fronts[0].push(p);
+    }
   }
   
-  return levels;
+  let current = 0;
+  while (fronts[current].length > 0) {
+    const next: number[] = [];
+    for (const p of fronts[current]) {
+      for (const q of dominatedBy[p]) {
+        dominationCount[q]--;
+        if (dominationCount[q] === 0) {
+          population[q].rank = current + 1;
+          next.push(q);
+        }
+      }
+    }
+    current++;
+    fronts.push(next);
+  }
+  
+  return fronts.filter(front => front.length > 0);
 }
 
 /**
- * Generate Pareto front for visualization
+ * Crowding distance within a single front
  */
-export function generateParetoFront(params: PumpScheduleParams, points: number = 50): {
-  cost: number;
-  stability: number;
-  schedule: number[];
-}[] {
-  const front: { cost: number; stability: number; schedule: number[] }[] = [];
+export function assignCrowdingDistance(population: Individual[], front: number[]): void {
+  for (const idx of front) {
+    population[idx].crowdingDistance = 0;
+  }
+  
+  const objectiveCount = objectiveVector(population[front[0]]).length;
   
-  // Generate diverse solutions
-  for (let i = 0; i < points; i++) {
-    // Vary off-peak percentage
-    const offPeakRatio = 0.2 + (i / points) * 0.4;
+  for (let m = 0; m < objectiveCount; m++) {
+    const sorted = [...front].sort(
+      (a, b) => objectiveVector(population[a])[m] - objectiveVector(population[b])[m]
+    );
+    const min = objectiveVector(population[sorted[0]])[m];
+    const max = objectiveVector(population[sorted[sorted.length - 1]])[m];
     
-    const schedule = generateScheduleWithOffPeakRatio(params, offPeakRatio);
-    const result = evaluateSchedule(schedule, params);
+    population[sorted[0]].crowdingDistance = Infinity;
+    population[sorted[sorted.length - 1]].crowdingDistance = Infinity;
     
-    front.push({
-      cost: result.cost,
-      stability: result.stability,
-      schedule
-    });
+    if (max === min) continue;
+    
+    for (let i = 1; i < sorted.length - 1; i++) {
+      const prev = objectiveVector(population[sorted[i - 1]])[m];
+      const next = objectiveVector(population[sorted[i + 1]])[m];
+      population[sorted[i]].crowdingDistance += (next - prev) / (max - min);
+    }
+  }
+}
+
+function assignRankAndCrowding(population: Individual[]): number[][] {
+  const fronts = fastNonDominatedSort(population);
+  for (const front of fronts) {
+    assignCrowdingDistance(population, front);
+  }
+  return fronts;
+}
+
+/**
+ * Elitist survivor selection: fill by fronts, break the last front by crowding distance
+ */
+function selectNextGeneration(combined: Individual[], size: number): Individual[] {
+  const fronts = assignRankAndCrowding(combined);
+  const next: Individual[] = [];
+  
+  for (const front of fronts) {
+    if (next.length + front.length <= size) {
+      next.push(...front.map(idx => combined[idx]));
+      continue;
+    }
+    
+    const remaining = [...front]
+      .sort((a, b) => combined[b].crowdingDistance - combined[a].crowdingDistance)
+      .slice(0, size - next.length);
+    next.push(...remaining.map(idx => combined[idx]));
+    break;
   }
   
-  return front.sort((a, b) => a.cost - b.cost);
+  return next;
 }
 
-function generateScheduleWithOffPeakRatio(params: PumpScheduleParams, ratio: number): number[] {
-  const { constraints, tariffs } = params;
-  const schedule: number[] = [];
+/**
+ * Crowded comparison: lower rank first, then larger crowding distance
+ */
+function crowdedCompare(a: Individual, b: Individual): number {
+  if (a.rank !== b.rank) return a.rank - b.rank;
+  return b.crowdingDistance - a.crowdingDistance;
+}
+
+/**
+ * Tournament selection (crowded comparison)
+ */
+function tournamentSelection(population: Individual[], random: RandomSource): Individual {
+  let best = population[Math.floor(random() * population.length)];
   
-  for (let hour = 0; hour < 24; hour++) {
-    const isOffPeak = tariffs[hour] < 100; // Off-peak detection
-    if (isOffPeak) {
-      schedule.push(constraints.maxActivePumps);
-    } else {
-      schedule.push(Math.random() > ratio ? constraints.maxActivePumps - 1 : constraints.maxActivePumps);
+  for (let i = 1; i < TOURNAMENT_SIZE; i++) {
+    const contender = population[Math.floor(random() * population.length)];
+    if (crowdedCompare(contender, best) < 0) {
+      best = contender;
     }
   }
   
-  return schedule;
+  return best;
 }
 
-function evaluateSchedule(schedule: number[], params: PumpScheduleParams): { cost: number; stability: number } {
-  const { demand, tariffs, pumps } = params;
-  const avgPumpEfficiency = pumps.reduce((sum, p) => sum + p.efficiency, 0) / pumps.length;
+/**
+ * Single-point crossover (whole time steps are exchanged)
+ */
+function crossover(parent1: Individual, parent2: Individual, random: RandomSource): [Individual, Individual] {
+  const crossoverPoint = Math.floor(random() * parent1.chromosome.length);
   
-  let totalCost = 0;
-  let levelVariation = 0;
-  let prevLevel = 50;
+  const child1 = createIndividual(
+    [...parent1.chromosome.slice(0, crossoverPoint), ...parent2.chromosome.slice(crossoverPoint)],
+    [...parent1.capacitors.slice(0, crossoverPoint), ...parent2.capacitors.slice(crossoverPoint)],
+    [...parent1.speeds.slice(0, crossoverPoint), ...parent2.speeds.slice(crossoverPoint)]
+  );
   
-  for (let hour = 0; hour < 24; hour++) {
-    const pumpsActive = schedule[hour];
-    const production = pumpsActive * pumps[0].maxFlow;
-    const energyKWh = production * avgPumpEfficiency;
-    totalCost += energyKWh * tariffs[hour];
-    
-    const netFlow = production - demand[hour];
-    const currentLevel = prevLevel + (netFlow / 1000) * 100;
-    levelVariation += Math.abs(currentLevel - prevLevel);
-    prevLevel = currentLevel;
+  const child2 = createIndividual(
+    [...parent2.chromosome.slice(0, crossoverPoint), ...parent1.chromosome.slice(crossoverPoint)],
+    [...parent2.capacitors.slice(0, crossoverPoint), ...parent1.capacitors.slice(crossoverPoint)],
+    [...parent2.speeds.slice(0, crossoverPoint), ...parent1.speeds.slice(crossoverPoint)]
+  );
+  
+  return [child1, child2];
+}
+
+/**
+ * Mutation - switch one pump on or off from a random step for at least the minimum
+ * run/rest time, keeping at most maxActivePumps running within the subscribed power,
+ * or (one time in four when there is a capacitor bank) re-set the capacitor steps of a random period,
+ * or (one time in four of the rest when pumps have drives) shift a drive speed over whole hours
+ */
+function mutate(
+  individual: Individual,
+  params: PumpScheduleParams,
+  fixedGenes: (number | null)[][],
+  random: RandomSource
+): Individual {
+  const { pumps, constraints, capacitorBank } = params;
+  const { minOnSteps, minOffSteps } = minRunSteps(params);
+  const mutationStep = Math.floor(random() * individual.chromosome.length);
+  
+  if (capacitorBank && capacitorBank.steps > 0 && random() < 0.25) {
+    const stepsPerHour = 60 / (params.stepMinutes ?? DEFAULT_STEP_MINUTES);
+    const end = Math.min(individual.capacitors.length, mutationStep + 1 + Math.floor(random() * 4 * stepsPerHour));
+    const value = Math.floor(random() * (capacitorBank.steps + 1));
+    const capacitors = individual.capacitors.map((steps, step) => (step >= mutationStep && step < end ? value : steps));
+    return createIndividual(individual.chromosome.map(step => [...step]), capacitors, individual.speeds);
   }
   
-  return {
-    cost: Math.round(totalCost),
-    stability: Math.round(levelVariation * 10) / 10
-  };
+  if (hasDrives(params) && random() < 0.25) {
+    const drives = pumps.map((_, p) => p).filter(p => pumps[p].vfd);
+    const pump = drives[Math.floor(random() * drives.length)];
+    const stepsPerHour = Math.max(1, Math.round(60 / (params.stepMinutes ?? DEFAULT_STEP_MINUTES)));
+    const start = Math.floor(mutationStep / stepsPerHour) * stepsPerHour;
+    const end = start + stepsPerHour * (1 + Math.floor(random() * 4));
+    const shift = (random() - 0.5) * 2 * SPEED_MUTATION_STEP;
+    const minSpeed = pumps[pump].vfd?.minSpeed ?? 1;
+    const speeds = individual.speeds.map((stepSpeeds, step) =>
+      step >= start && step < end
+        ? stepSpeeds.map((value, p) => (p === pump ? clampSpeed(value + shift, minSpeed) : value))
+        : stepSpeeds
+    );
+    return createIndividual(individual.chromosome.map(step => [...step]), [...individual.capacitors], speeds);
+  }
+  
+  const mutationPump = Math.floor(random() * pumps.length);
+  const newChromosome = individual.chromosome.map(step => [...step]);
+  
+  const value = newChromosome[mutationStep][mutationPump] ? 0 : 1;
+  const length = Math.max(1, value ? minOnSteps : minOffSteps);
+  const end = Math.min(newChromosome.length, mutationStep + length);
+  const powerLimits = stepPowerLimits(params);
+  for (let step = mutationStep; step < end; step++) {
+    newChromosome[step][mutationPump] = value;
+    enforceMaxActivePumps(newChromosome[step], pumps, constraints.maxActivePumps, powerLimits[step]);
+  }
+  enforceFixedGenes(newChromosome, fixedGenes);
+  
+  return createIndividual(newChromosome, [...individual.capacitors], individual.speeds);
+}
+
+/**
+ * Restore operator-locked genes and stop pumps during their unavailability windows
+ */
+function enforceFixedGenes(chromosome: number[][], fixedGenes: (number | null)[][]): void {
+  chromosome.forEach((stepPlan, step) => {
+    stepPlan.forEach((_, p) => {
+      const fixed = fixedGenes[step][p];
+      if (fixed !== null) stepPlan[p] = fixed;
+    });
+  });
+}
+
+/**
+ * Stop the least efficient running pumps until at most maxActive remain
+ * and their total power fits within maxPower (subscribed power, or genset rating during outages)
+ */
+function enforceMaxActivePumps(
+  stepPlan: number[],
+  pumps: SchedulePump[],
+  maxActive: number,
+  maxPower: number = Infinity
+): void {
+  const running = stepPlan
+    .map((on, index) => ({ on, index }))
+    .filter(p => p.on)
+    .sort((a, b) => pumps[b.index].efficiency - pumps[a.index].efficiency);
+  let power = running.reduce((sum, p) => sum + pumps[p.index].power, 0);
+  
+  for (let i = 0; i < running.length && (running.length - i > maxActive || power > maxPower); i++) {
+    stepPlan[running[i].index] = 0;
+    power -= pumps[running[i].index].power;
+  }
 }
 
 /**
@@ -381,8 +714,9 @@ export function exportAlgorithmConfig(): {
       generations: GENERATIONS,
       crossoverRate: CROSSOVER_RATE,
       mutationRate: MUTATION_RATE,
-      eliteCount: ELITE_COUNT
+      tournamentSize: TOURNAMENT_SIZE,
+      speedMutationStep: SPEED_MUTATION_STEP
     },
-    description: 'Optimizes pump scheduling for energy cost minimization while maintaining reservoir levels and power factor constraints'
+    description: 'Multi-objective NSGA-II scheduling of each pump (cost, reservoir stability, switches) under hydraulic, electrical and operating constraints'
   };
 }
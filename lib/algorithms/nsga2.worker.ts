@@ -0,0 +1,20 @@
+// NSGA-II Web Worker for ONEA-OPT
+// Runs the pump schedule optimization off the main thread and streams per-generation progress
+
+import { optimizePumpSchedule } from './nsga2';
+import type { OptimizerWorkerRequest, OptimizerWorkerMessage } from './optimizer-client';
+
+self.onmessage = (event: MessageEvent<OptimizerWorkerRequest>) => {
+  const { params, options } = event.data;
+  const post = (message: OptimizerWorkerMessage) => self.postMessage(message);
+  
+  try {
+    const result = optimizePumpSchedule(params, {
+      ...options,
+      onGeneration: progress => post({ type: 'progress', progress })
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: error instanceof Error ? error.message : String(error) });
+  }
+};
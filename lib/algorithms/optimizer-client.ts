@@ -0,0 +1,104 @@
+// Optimizer Client for ONEA-OPT
+// Starts the NSGA-II optimization in a Web Worker, with progress callbacks and cancellation
+
+import {
+  optimizePumpSchedule,
+  type Nsga2Options,
+  type Nsga2Progress,
+  type Nsga2Result,
+  type PumpScheduleParams
+} from './nsga2';
+
+export interface OptimizerWorkerRequest {
+  params: PumpScheduleParams;
+  options?: Omit<Nsga2Options, 'onGeneration' | 'random'>;
+}
+
+export type OptimizerWorkerMessage =
+  | { type: 'progress'; progress: Nsga2Progress }
+  | { type: 'result'; result: Nsga2Result }
+  | { type: 'error'; message: string };
+
+export interface OptimizationRun {
+  result: Promise<Nsga2Result | null>; // Resolves to null when cancelled
+  cancel: () => void;
+}
+
+/**
+ * Run optimizePumpSchedule in a dedicated worker
+ * Falls back to the main thread when Web Workers are not available.
+ */
+export function runOptimizationInWorker(
+  params: PumpScheduleParams,
+  options?: Omit<Nsga2Options, 'onGeneration' | 'random'>,
+  onProgress?: (progress: Nsga2Progress) => void
+): OptimizationRun {
+  if (typeof Worker === 'undefined') {
+    return runOnMainThread(params, options, onProgress);
+  }
+  
+  const worker = new Worker(new URL('./nsga2.worker.ts', import.meta.url), { type: 'module' });
+  let resolveRun: (value: Nsga2Result | null) => void = () => {};
+  
+  const result = new Promise<Nsga2Result | null>((resolve, reject) => {
+    resolveRun = resolve;
+    
+    worker.onmessage = (event: MessageEvent<OptimizerWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.progress);
+        return;
+      }
+      worker.terminate();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    };
+    
+    worker.onerror = (event) => {
+      worker.terminate();
+      reject(new Error(event.message));
+    };
+  });
+  
+  const request: OptimizerWorkerRequest = { params, options };
+  worker.postMessage(request);
+  
+  return {
+    result,
+    cancel: () => {
+      worker.terminate();
+      resolveRun(null);
+    }
+  };
+}
+
+function runOnMainThread(
+  params: PumpScheduleParams,
+  options?: Omit<Nsga2Options, 'onGeneration' | 'random'>,
+  onProgress?: (progress: Nsga2Progress) => void
+): OptimizationRun {
+  let cancelled = false;
+  
+  const result = new Promise<Nsga2Result | null>((resolve, reject) => {
+    // Let the UI render before blocking
+    setTimeout(() => {
+      if (cancelled) {
+        resolve(null);
+        return;
+      }
+      try {
+        resolve(optimizePumpSchedule(params, { ...options, onGeneration: onProgress }));
+      } catch (error) {
+        reject(error);
+      }
+    }, 0);
+  });
+  
+  return {
+    result,
+    cancel: () => { cancelled = true; }
+  };
+}
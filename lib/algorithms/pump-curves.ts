@@ -0,0 +1,121 @@
+// Pump Hydraulics for ONEA-OPT
+// H-Q and efficiency curves, affinity laws for variable speed drives, and the system head curve
+
+export interface PumpCurve {
+  ratedFlow: number; // m³/h at the best efficiency point, full speed
+  ratedHead: number; // m at the best efficiency point, full speed
+  shutoffHead: number; // m at zero flow, full speed
+  bestEfficiency: number; // Wire-to-water efficiency at the best efficiency point (0-1)
+}
+
+export interface SystemCurve {
+  staticHead: number; // m - geodetic lift up to the bottom of the reservoir
+  levelHead: number; // m of water in the reservoir when full
+  friction: number; // m per (m³/h)² of total flow in the main
+}
+
+export interface VariableSpeedDrive {
+  minSpeed: number; // Lowest speed ratio (0-1) allowed by the drive
+}
+
+export interface OperatingPoint {
+  flow: number; // m³/h
+  head: number; // m
+  efficiency: number; // Wire-to-water (0-1), drive losses included
+  power: number; // kW drawn
+}
+
+// Hydraulic Parameters
+export const VFD_EFFICIENCY = 0.97; // Drive losses
+export const VFD_COS_PHI = 0.96; // Displacement power factor seen by the grid behind a drive
+const MIN_EFFICIENCY = 0.05; // Floor far from the best efficiency point, keeps power finite
+const HEAD_ITERATIONS = 30; // Bisection steps of the operating point
+const KW_PER_M3H_M = 1 / 367; // Hydraulic power of 1 m³/h lifted by 1 m (water)
+
+/**
+ * Head delivered at a flow and speed ratio: H = s²·H0 - k·Q² (affinity laws)
+ */
+export function pumpHead(curve: PumpCurve, flow: number, speed: number = 1): number {
+  return speed * speed * curve.shutoffHead - curveSteepness(curve) * flow * flow;
+}
+
+/**
+ * Flow delivered against a head at a speed ratio (0 when the head is out of reach)
+ */
+export function pumpFlowAtHead(curve: PumpCurve, head: number, speed: number = 1): number {
+  return Math.sqrt(Math.max(0, speed * speed * curve.shutoffHead - head) / curveSteepness(curve));
+}
+
+/**
+ * Wire-to-water efficiency: parabola peaking at the best efficiency point, which moves with speed
+ */
+export function pumpEfficiency(curve: PumpCurve, flow: number, speed: number = 1): number {
+  const q = flow / (speed * curve.ratedFlow);
+  return Math.max(MIN_EFFICIENCY, curve.bestEfficiency * (2 * q - q * q));
+}
+
+/**
+ * Head required by the network for a total flow, with the reservoir at a level (%)
+ */
+export function systemHead(system: SystemCurve, level: number, totalFlow: number): number {
+  return system.staticHead + (system.levelHead * level) / 100 + system.friction * totalFlow * totalFlow;
+}
+
+/**
+ * Operating points of pumps running in parallel into the same main
+ * A stopped pump has speed 0, a pump on line without drive speed 1. The shared head is found by
+ * bisection where the pumps' total flow meets the system curve.
+ */
+export function solveOperatingPoints(
+  units: { curve: PumpCurve; speed: number; drive: boolean }[],
+  system: SystemCurve,
+  level: number
+): OperatingPoint[] {
+  const totalFlow = (head: number) =>
+    units.reduce((sum, u) => sum + (u.speed > 0 ? pumpFlowAtHead(u.curve, head, u.speed) : 0), 0);
+
+  let low = systemHead(system, level, 0);
+  let high = Math.max(low, ...units.map(u => u.speed * u.speed * u.curve.shutoffHead));
+  for (let i = 0; i < HEAD_ITERATIONS; i++) {
+    const head = (low + high) / 2;
+    // The flow the pumps deliver at this head needs more head from the network: the head rises
+    if (systemHead(system, level, totalFlow(head)) > head) {
+      low = head;
+    } else {
+      high = head;
+    }
+  }
+  const head = (low + high) / 2;
+
+  return units.map(u => {
+    const flow = u.speed > 0 ? pumpFlowAtHead(u.curve, head, u.speed) : 0;
+    const efficiency = pumpEfficiency(u.curve, flow, u.speed || 1) * (u.drive ? VFD_EFFICIENCY : 1);
+    return { flow, head, efficiency, power: flow > 0 ? (flow * head * KW_PER_M3H_M) / efficiency : 0 };
+  });
+}
+
+function curveSteepness(curve: PumpCurve): number {
+  return (curve.shutoffHead - curve.ratedHead) / (curve.ratedFlow * curve.ratedFlow);
+}
+
+/**
+ * Export algorithm configuration
+ */
+export function exportPumpCurvesConfig(): {
+  name: string;
+  version: string;
+  parameters: Record<string, number>;
+  description: string;
+} {
+  return {
+    name: 'Pump Hydraulics',
+    version: '1.0.0',
+    parameters: {
+      vfdEfficiency: VFD_EFFICIENCY,
+      vfdCosPhi: VFD_COS_PHI,
+      minEfficiency: MIN_EFFICIENCY,
+      headIterations: HEAD_ITERATIONS
+    },
+    description: 'Quadratic H-Q curves and parabolic wire-to-water efficiency curves scaled by the affinity laws for variable speed drives, intersected with a system head curve whose static head follows the reservoir level'
+  };
+}
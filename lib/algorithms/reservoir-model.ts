@@ -0,0 +1,126 @@
+// Reservoir Model for ONEA-OPT
+// Volume balance of the station tanks in m³, levels expressed in % of total capacity
+
+export interface ReservoirParams {
+  id: string;
+  capacity: number; // m³ - total tank volume
+  usableVolume: number; // m³ - volume above the outlet, the rest is dead storage
+  minLevel: number; // % of capacity
+  maxLevel: number; // % of capacity
+  initialLevel: number; // % of capacity
+  targetEndLevel?: number; // % at the end of the horizon (defaults to initialLevel)
+  pumpIds?: string[]; // Pumps feeding this tank (defaults to every pump not assigned elsewhere)
+  demandShare?: number; // Share of station demand drawn from this tank (defaults to an even split)
+}
+
+export interface ReservoirStepResult {
+  volumes: number[]; // m³ after the step, per reservoir
+  violation: number; // % outside [min, max] summed over reservoirs
+  spilled: number; // m³ lost by overflow
+  unserved: number; // m³ of demand that could not be drawn (below the outlet)
+}
+
+/**
+ * Level of the outlet: below it the stored water cannot be distributed
+ */
+export function deadLevel(reservoir: ReservoirParams): number {
+  return (1 - reservoir.usableVolume / reservoir.capacity) * 100;
+}
+
+export function levelToVolume(reservoir: ReservoirParams, level: number): number {
+  return (level / 100) * reservoir.capacity;
+}
+
+export function volumeToLevel(reservoir: ReservoirParams, volume: number): number {
+  return (volume / reservoir.capacity) * 100;
+}
+
+/**
+ * Lowest allowed level: the operating minimum, never below the outlet
+ */
+export function effectiveMinLevel(reservoir: ReservoirParams): number {
+  return Math.max(reservoir.minLevel, deadLevel(reservoir));
+}
+
+/**
+ * Index of the reservoir fed by each pump
+ */
+export function mapPumpsToReservoirs(reservoirs: ReservoirParams[], pumpIds: string[]): number[] {
+  return pumpIds.map(pumpId => {
+    const index = reservoirs.findIndex(r => r.pumpIds?.includes(pumpId));
+    if (index >= 0) return index;
+    const fallback = reservoirs.findIndex(r => !r.pumpIds || r.pumpIds.length === 0);
+    return fallback >= 0 ? fallback : 0;
+  });
+}
+
+/**
+ * Share of the station demand drawn from each reservoir (normalized to 1)
+ */
+export function demandShares(reservoirs: ReservoirParams[]): number[] {
+  const explicit = reservoirs.reduce((sum, r) => sum + (r.demandShare ?? 0), 0);
+  const implicitCount = reservoirs.filter(r => r.demandShare === undefined).length;
+  const implicitShare = implicitCount > 0 ? Math.max(0, 1 - explicit) / implicitCount : 0;
+  const shares = reservoirs.map(r => r.demandShare ?? implicitShare);
+  const total = shares.reduce((a, b) => a + b, 0);
+  return shares.map(share => (total > 0 ? share / total : 1 / reservoirs.length));
+}
+
+/**
+ * Advance every reservoir by one time step
+ * inflows and demand are volumes (m³) over the step
+ */
+export function stepReservoirs(
+  reservoirs: ReservoirParams[],
+  volumes: number[],
+  inflows: number[],
+  demand: number,
+  shares: number[]
+): ReservoirStepResult {
+  let violation = 0;
+  let spilled = 0;
+  let unserved = 0;
+
+  const next = reservoirs.map((reservoir, i) => {
+    const outletVolume = levelToVolume(reservoir, deadLevel(reservoir));
+    let volume = volumes[i] + inflows[i];
+    const draw = demand * shares[i];
+
+    // Only water above the outlet can be distributed
+    const available = Math.max(0, volume - outletVolume);
+    unserved += Math.max(0, draw - available);
+    volume -= Math.min(draw, available);
+
+    if (volume > reservoir.capacity) {
+      spilled += volume - reservoir.capacity;
+      volume = reservoir.capacity;
+    }
+
+    const level = volumeToLevel(reservoir, volume);
+    violation += Math.max(0, effectiveMinLevel(reservoir) - level);
+    violation += Math.max(0, level - reservoir.maxLevel);
+
+    return volume;
+  });
+
+  return { volumes: next, violation, spilled, unserved };
+}
+
+/**
+ * Level of all reservoirs combined, in % of total capacity
+ */
+export function aggregateLevel(reservoirs: ReservoirParams[], volumes: number[]): number {
+  const capacity = reservoirs.reduce((sum, r) => sum + r.capacity, 0);
+  const volume = volumes.reduce((a, b) => a + b, 0);
+  return capacity > 0 ? (volume / capacity) * 100 : 0;
+}
+
+/**
+ * Shortfall (%) against the end-of-horizon target level, summed over reservoirs
+ */
+export function endLevelShortfall(reservoirs: ReservoirParams[], volumes: number[]): number {
+  return reservoirs.reduce((sum, reservoir, i) => {
+    const target = reservoir.targetEndLevel ?? reservoir.initialLevel;
+    return sum + Math.max(0, target - volumeToLevel(reservoir, volumes[i]));
+  }, 0);
+}
@@ -0,0 +1,48 @@
+// Random Number Generation for ONEA-OPT
+// Seeded pseudo-random generator so that algorithm runs can be reproduced
+
+export type RandomSource = () => number; // Uniform in [0, 1), like Math.random
+
+export interface RandomOptions {
+  seed?: number; // Reproducible runs: same seed + same inputs = same result
+  random?: RandomSource; // Custom generator, takes precedence over seed
+}
+
+/**
+ * Mulberry32 generator - fast 32-bit PRNG, good enough for stochastic search
+ */
+export function createRng(seed: number): RandomSource {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * New 32-bit seed, for runs that must still record how to be reproduced
+ */
+export function generateSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Random source from options: custom generator, else seeded generator, else Math.random
+ */
+export function resolveRandom(options?: RandomOptions): RandomSource {
+  if (options?.random) return options.random;
+  if (options?.seed !== undefined) return createRng(options.seed);
+  return Math.random;
+}
+
+/**
+ * Standard normal draw (Box-Muller transform)
+ */
+export function randomNormal(random: RandomSource): number {
+  const u = 1 - random(); // (0, 1], keeps log finite
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * random());
+}
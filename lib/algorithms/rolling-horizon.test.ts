@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+import { comparePlans, type AppliedPlan } from './rolling-horizon';
+import { buildOptimizedSchedule, type OptimizedSchedule } from './nsga2';
+import type { PumpScheduleParams } from './schedule-model';
+import {
+  ZIGA_STATION,
+  buildStationReservoirs,
+  generateDemandProfile,
+  generateTariffSchedule
+} from '../data/ziga-mock-data';
+
+describe('comparePlans', () => {
+  const params: PumpScheduleParams = {
+    demand: generateDemandProfile(new Date(2024, 5, 1), 60, 24, { seed: 3 }),
+    tariffs: generateTariffSchedule(),
+    reservoirs: buildStationReservoirs(),
+    pumps: ZIGA_STATION.pumps.map(p => ({
+      id: p.id,
+      power: p.power,
+      efficiency: p.efficiency,
+      maxFlow: p.maxFlow
+    })),
+    constraints: { minCosPhi: 0, maxActivePumps: 3 }
+  };
+  const pumpCount = params.pumps.length;
+  const planning = Array.from({ length: 24 }, (_, step) =>
+    params.pumps.map((_, p) => ((step + p) % 3 ? 1 : 0))
+  );
+  const applied: AppliedPlan = { plan: buildOptimizedSchedule(planning, params), fromStep: 0 };
+
+  // Applied planning with the given cells flipped, at a cost relative to the applied one
+  function variant(cells: [number, number][], costRatio: number): OptimizedSchedule {
+    const pumpPlanning = planning.map(stepPlan => [...stepPlan]);
+    cells.forEach(([step, p]) => { pumpPlanning[step][p] = 1 - pumpPlanning[step][p]; });
+    return { ...applied.plan, pumpPlanning, cost: Math.round(applied.plan.cost * costRatio) };
+  }
+
+  it('keeps the applied plan when nothing changes, even if the new cost is lower', () => {
+    const change = comparePlans(applied, variant([], 0.9), 0, params);
+
+    expect(change.changedShare).toBe(0);
+    expect(change.material).toBe(false);
+  });
+
+  it('is material for a switch within the next hour that saves at least 2%', () => {
+    const change = comparePlans(applied, variant([[0, 1]], 0.95), 0, params);
+
+    expect(change.immediate).toBe(true);
+    expect(change.changedShare).toBeCloseTo(1 / (24 * pumpCount));
+    expect(change.material).toBe(true);
+  });
+
+  it('is not material when the saving is below 2%', () => {
+    const change = comparePlans(applied, variant([[0, 1]], 0.99), 0, params);
+
+    expect(change.immediate).toBe(true);
+    expect(change.material).toBe(false);
+  });
+
+  it('needs 10% of the cells changed when the next hour is untouched', () => {
+    const few = variant([[10, 0], [11, 0]], 0.9);
+    const many = variant(Array.from({ length: 8 }, (_, i) => [10 + i, 0] as [number, number]), 0.9);
+
+    expect(comparePlans(applied, few, 0, params).material).toBe(false);
+    const change = comparePlans(applied, many, 0, params);
+    expect(change.immediate).toBe(false);
+    expect(change.changedShare).toBeGreaterThanOrEqual(0.1);
+    expect(change.material).toBe(true);
+  });
+
+  it('compares against the remaining part of the applied plan', () => {
+    const remainingParams = {
+      ...params,
+      horizonHours: 20,
+      demand: params.demand.slice(4),
+      tariffs: params.tariffs.slice(4)
+    };
+    const next = { ...applied.plan, pumpPlanning: planning.slice(4) };
+
+    expect(comparePlans(applied, next, 4, remainingParams).changedShare).toBe(0);
+  });
+
+  it('is material when the new plan repairs a violated constraint at the same cost', () => {
+    const idle: AppliedPlan = {
+      plan: buildOptimizedSchedule(planning.map(stepPlan => stepPlan.map(() => 0)), params),
+      fromStep: 0
+    };
+    const next = { ...applied.plan, cost: idle.plan.cost, constraintViolation: 0 };
+    const change = comparePlans(idle, next, 0, params);
+
+    expect(idle.plan.constraintViolation).toBeGreaterThan(0);
+    expect(change.fixesViolation).toBe(true);
+    expect(change.material).toBe(true);
+  });
+});
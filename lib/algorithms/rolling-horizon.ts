@@ -0,0 +1,295 @@
+// Rolling-Horizon Controller for ONEA-OPT
+// Model predictive control: re-optimizes the rest of the horizon from live readings every hour
+
+import { predictDemand, type DemandPredictionParams } from './demand-predictor';
+import { buildOptimizedSchedule, type Nsga2Result, type OptimizedSchedule } from './nsga2';
+import {
+  getStepCount,
+  formatStepTime,
+  DEFAULT_STEP_MINUTES,
+  type PumpScheduleParams
+} from './schedule-model';
+import type { RandomOptions } from './rng';
+import type { RecommendationRecord } from '../db';
+
+export interface LiveReading {
+  timestamp: number; // ms
+  reservoirLevels: Record<string, number>; // Measured level (%) per reservoir id
+  pumpsOn: Record<string, boolean>; // Measured running state per pump id
+  recentDemand: number[]; // Observed hourly demand (m³/h), oldest first - up to 7 days
+  batterySoc?: number; // Measured battery state of charge (%), when the site has one
+}
+
+// Conditions of the forecast day that the readings do not carry
+export type ForecastContext = Pick<DemandPredictionParams, 'isHoliday' | 'temperature' | 'season'>;
+
+export interface AppliedPlan {
+  plan: OptimizedSchedule; // Plan being applied
+  fromStep: number; // Step of the daily horizon where plan.pumpPlanning[0] applies
+}
+
+export interface PlanChange {
+  changedShare: number; // Share of (step, pump) cells that differ from the applied plan
+  immediate: boolean; // A pump changes state within the next hour
+  costChange: number; // FCFA - new plan minus applied plan, both on the updated forecast
+  fixesViolation: boolean; // The applied plan now breaks a constraint that the new one meets
+  material: boolean;
+}
+
+export interface RollingHorizonStep extends AppliedPlan {
+  plan: Nsga2Result;
+  params: PumpScheduleParams; // Problem over the remaining horizon
+  change: PlanChange | null; // null when there was no plan to compare with
+}
+
+export type ScheduleOptimizer = (
+  params: PumpScheduleParams,
+  seedPlanning?: number[][]
+) => Promise<Nsga2Result | null>;
+
+// Controller parameters
+export const RECOMPUTE_INTERVAL_MINUTES = 60;
+const MATERIAL_CHANGED_SHARE = 0.1; // Share of cells changed
+const MATERIAL_COST_CHANGE = 0.02; // Relative saving vs the applied plan
+
+/**
+ * Step of the daily horizon at a given time (horizon starting at startTime)
+ */
+export function stepAt(params: PumpScheduleParams, startTime: number, timestamp: number): number {
+  const stepMs = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) * 60000;
+  return Math.max(0, Math.floor((timestamp - startTime) / stepMs));
+}
+
+/**
+ * Re-forecast the demand of the remaining steps from the observed demand
+ */
+export function forecastRemainingDemand(
+  params: PumpScheduleParams,
+  reading: LiveReading,
+  startTime: number,
+  fromStep: number,
+  context: ForecastContext,
+  options?: RandomOptions
+): number[] {
+  const stepMs = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) * 60000;
+  const prediction = predictDemand({
+    ...context,
+    historical: reading.recentDemand.slice(-168),
+    dayOfWeek: new Date(reading.timestamp).getDay()
+  }, options);
+
+  return Array.from({ length: getStepCount(params) - fromStep }, (_, i) =>
+    prediction.hourly[new Date(startTime + (fromStep + i) * stepMs).getHours()]
+  );
+}
+
+/**
+ * Problem over the remaining horizon: measured levels, pump states and battery charge as initial conditions,
+ * new demand forecast, tariffs, locks, availability windows and outages shifted to the new origin.
+ * Demand scenarios keep their spread around the new forecast. Starts already made today
+ * are not known here, so maxStartsPerDay applies to the remaining steps only.
+ */
+export function buildRemainingParams(
+  params: PumpScheduleParams,
+  reading: LiveReading,
+  fromStep: number,
+  demand: number[]
+): PumpScheduleParams {
+  const stepMinutes = params.stepMinutes ?? DEFAULT_STEP_MINUTES;
+  const offset = (fromStep * stepMinutes) / 60;
+  const shift = <T extends { start: number; end: number }>(windows?: T[]): T[] | undefined =>
+    windows
+      ?.filter(w => w.end > offset)
+      .map(w => ({ ...w, start: Math.max(0, w.start - offset), end: w.end - offset }));
+
+  return {
+    ...params,
+    demand,
+    demandScenarios: params.demandScenarios?.map(scenario =>
+      demand.map((value, i) => {
+        const forecast = params.demand[fromStep + i];
+        return forecast > 0 ? Math.round((scenario[fromStep + i] * value) / forecast) : value;
+      })
+    ),
+    tariffs: params.tariffs.slice(fromStep),
+    solarProduction: params.solarProduction?.slice(fromStep),
+    horizonHours: ((getStepCount(params) - fromStep) * stepMinutes) / 60,
+    reservoirs: params.reservoirs.map(r => ({
+      ...r,
+      initialLevel: reading.reservoirLevels[r.id] ?? r.initialLevel,
+      targetEndLevel: r.targetEndLevel ?? r.initialLevel // The daily target does not move with the readings
+    })),
+    pumps: params.pumps.map(p => ({ ...p, initiallyOn: reading.pumpsOn[p.id] ?? p.initiallyOn })),
+    battery: params.battery && { ...params.battery, initialSoc: reading.batterySoc ?? params.battery.initialSoc },
+    availability: shift(params.availability),
+    locks: shift(params.locks),
+    outages: shift(params.outages)
+  };
+}
+
+/**
+ * Compare a new plan with the remaining part of the applied one, on the same updated problem
+ * A change is material when it affects the next hour or enough cells, and either saves money
+ * or repairs a constraint the applied plan no longer meets.
+ */
+export function comparePlans(
+  applied: AppliedPlan,
+  next: OptimizedSchedule,
+  fromStep: number,
+  params: PumpScheduleParams
+): PlanChange {
+  const offset = fromStep - applied.fromStep;
+  const remaining = applied.plan.pumpPlanning.slice(offset, offset + next.pumpPlanning.length);
+
+  // No overlap left: the applied plan has run out
+  if (offset < 0 || remaining.length < next.pumpPlanning.length) {
+    return { changedShare: 1, immediate: true, costChange: 0, fixesViolation: false, material: true };
+  }
+
+  const stepsPerHour = 60 / (params.stepMinutes ?? DEFAULT_STEP_MINUTES);
+  let changed = 0;
+  let immediate = false;
+  next.pumpPlanning.forEach((stepPlan, step) => {
+    stepPlan.forEach((on, p) => {
+      if ((on ? 1 : 0) === (remaining[step][p] ? 1 : 0)) return;
+      changed++;
+      if (step < stepsPerHour) immediate = true;
+    });
+  });
+  const changedShare = changed / (next.pumpPlanning.length * params.pumps.length);
+
+  const current = buildOptimizedSchedule(
+    remaining,
+    params,
+    undefined,
+    applied.plan.capacitorPlanning.slice(offset, offset + next.pumpPlanning.length),
+    applied.plan.speedPlanning.slice(offset, offset + next.pumpPlanning.length)
+  );
+  const costChange = next.cost - current.cost;
+  const fixesViolation = current.constraintViolation > 0 && next.constraintViolation === 0;
+  const worthIt = fixesViolation || -costChange >= Math.abs(current.cost) * MATERIAL_COST_CHANGE;
+
+  return {
+    changedShare,
+    immediate,
+    costChange,
+    fixesViolation,
+    material: (immediate || changedShare >= MATERIAL_CHANGED_SHARE) && worthIt
+  };
+}
+
+/**
+ * One control step: re-forecast, re-optimize the rest of the horizon (warm-started from the
+ * applied plan) and compare. Returns null once the horizon is over or when the run is cancelled.
+ */
+export async function runRollingHorizonStep(
+  params: PumpScheduleParams,
+  startTime: number,
+  reading: LiveReading,
+  applied: AppliedPlan | null,
+  context: ForecastContext,
+  optimize: ScheduleOptimizer,
+  options?: RandomOptions
+): Promise<RollingHorizonStep | null> {
+  const fromStep = stepAt(params, startTime, reading.timestamp);
+  if (fromStep >= getStepCount(params)) return null;
+
+  const demand = forecastRemainingDemand(params, reading, startTime, fromStep, context, options);
+  const remainingParams = buildRemainingParams(params, reading, fromStep, demand);
+  const offset = applied ? fromStep - applied.fromStep : -1;
+  const seedPlanning = applied && offset >= 0 ? applied.plan.pumpPlanning.slice(offset) : undefined;
+
+  const plan = await optimize(remainingParams, seedPlanning);
+  if (!plan) return null;
+
+  return {
+    plan,
+    fromStep,
+    params: remainingParams,
+    change: applied ? comparePlans(applied, plan, fromStep, remainingParams) : null
+  };
+}
+
+/**
+ * Recommendation describing the first pump switch that differs from the applied plan
+ * (or from the measured pump states for a first plan)
+ */
+export function buildPlanRecommendation(
+  step: RollingHorizonStep,
+  applied: AppliedPlan | null,
+  reading: LiveReading,
+  stationId: string
+): RecommendationRecord {
+  const { plan, params, fromStep, change } = step;
+  const stepMinutes = params.stepMinutes ?? DEFAULT_STEP_MINUTES;
+  const reference = (s: number, p: number): boolean => {
+    const previous = applied?.plan.pumpPlanning[fromStep - applied.fromStep + s];
+    if (previous) return previous[p] === 1;
+    return s === 0 ? params.pumps[p].initiallyOn === true : plan.pumpPlanning[s - 1][p] === 1;
+  };
+
+  const first = firstSwitch(plan.pumpPlanning, reference);
+  const pump = first ? params.pumps[first.pump].id : params.pumps[0]?.id ?? '';
+  const action = first
+    ? `${first.on ? 'Démarrer' : 'Arrêter'} ${pump} à ${formatStepTime(fromStep + first.step, stepMinutes)}`
+    : 'Maintenir le planning en cours';
+
+  const savings = Math.max(0, Math.round(-(change?.costChange ?? 0)));
+  const levels = params.reservoirs.map(r => `${r.id} ${Math.round(reading.reservoirLevels[r.id] ?? r.initialLevel)}%`);
+  const demandTotal = params.demand.reduce((sum, d) => sum + d, 0) * (stepMinutes / 60);
+
+  return {
+    id: `rec-mpc-${reading.timestamp}`,
+    timestamp: reading.timestamp,
+    pump,
+    action,
+    explanation: [
+      `Niveaux mesurés : ${levels.join(', ')}`,
+      `Demande re-prévue d'ici la fin de l'horizon : ${Math.round(demandTotal).toLocaleString()} m³`,
+      change
+        ? `Planning modifié sur ${Math.round(change.changedShare * 100)}% des créneaux restants${
+          change.fixesViolation ? ' (le planning en cours ne respecte plus les contraintes)' : ''
+        }`
+        : 'Premier planning du pilotage glissant',
+      `Économie estimée : ${savings.toLocaleString()} FCFA`
+    ],
+    estimatedSavings: savings,
+    applied: false,
+    seed: plan.seed,
+    stationId
+  };
+}
+
+function firstSwitch(
+  pumpPlanning: number[][],
+  reference: (step: number, pump: number) => boolean
+): { step: number; pump: number; on: boolean } | null {
+  for (let step = 0; step < pumpPlanning.length; step++) {
+    for (let pump = 0; pump < pumpPlanning[step].length; pump++) {
+      const on = pumpPlanning[step][pump] === 1;
+      if (on !== reference(step, pump)) return { step, pump, on };
+    }
+  }
+  return null;
+}
+
+/**
+ * Export algorithm configuration
+ */
+export function exportRollingHorizonConfig(): {
+  name: string;
+  version: string;
+  parameters: Record<string, number>;
+  description: string;
+} {
+  return {
+    name: 'Rolling-Horizon Controller',
+    version: '1.0.0',
+    parameters: {
+      recomputeIntervalMinutes: RECOMPUTE_INTERVAL_MINUTES,
+      materialChangedShare: MATERIAL_CHANGED_SHARE,
+      materialCostChange: MATERIAL_COST_CHANGE
+    },
+    description: 'Model predictive control: every hour, re-forecasts the remaining demand from observed consumption, re-optimizes the rest of the horizon from measured reservoir levels and pump states, and recommends the new plan only when it changes materially'
+  };
+}
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import {
+  analyzePumpSwitching,
+  buildOutageMask,
+  calculateDemandCharge,
+  stepEnergyPrices,
+  stepPowerLimits,
+  DAYS_PER_BILLING_MONTH,
+  type PumpScheduleParams
+} from './schedule-model';
+
+function switchingParams(
+  constraints: Partial<PumpScheduleParams['constraints']>,
+  options: { stepMinutes?: number; horizonHours?: number; initiallyOn?: boolean } = {}
+): PumpScheduleParams {
+  return {
+    demand: [],
+    tariffs: [],
+    stepMinutes: options.stepMinutes ?? 60,
+    horizonHours: options.horizonHours ?? 24,
+    reservoirs: [],
+    pumps: [{ id: 'P1', power: 100, efficiency: 0.5, maxFlow: 200, initiallyOn: options.initiallyOn }],
+    constraints: { minCosPhi: 0.9, maxActivePumps: 1, ...constraints }
+  };
+}
+
+// One pump, on during the given steps
+function planning(steps: number, onSteps: number[]): number[][] {
+  return Array.from({ length: steps }, (_, step) => [onSteps.includes(step) ? 1 : 0]);
+}
+
+describe('analyzePumpSwitching', () => {
+  it('counts starts per day and the excess over maxStartsPerDay', () => {
+    // Starts at 1h, 5h, 9h on day 1 and at 25h on day 2
+    const params = switchingParams({ maxStartsPerDay: 2 }, { horizonHours: 48 });
+    const [report] = analyzePumpSwitching(planning(48, [1, 2, 5, 6, 9, 25]), params);
+
+    expect(report.starts).toBe(4);
+    expect(report.maxStartsInADay).toBe(3);
+    expect(report.excessStarts).toBe(1);
+    expect(report.violation).toBe(1);
+  });
+
+  it('does not count a pump already running at the start as a start', () => {
+    const params = switchingParams({}, { initiallyOn: true });
+    const [report] = analyzePumpSwitching(planning(24, [0, 1, 2, 10]), params);
+
+    expect(report.starts).toBe(1);
+  });
+
+  it('reports runs and rests shorter than the minimum times, in missing hours', () => {
+    // Run 4h-5h (2h < 3h), rest 6h-6h (1h < 2h), run 7h-10h (4h)
+    const params = switchingParams({ minOnTime: 3, minOffTime: 2 });
+    const [report] = analyzePumpSwitching(planning(24, [4, 5, 7, 8, 9, 10]), params);
+
+    expect(report.minOnViolations).toBe(1);
+    expect(report.minOffViolations).toBe(1);
+    expect(report.violation).toBe(2);
+  });
+
+  it('ignores runs and rests cut by the horizon boundaries', () => {
+    // Leading rest of 1h, trailing run of 1h
+    const params = switchingParams({ minOnTime: 3, minOffTime: 3 });
+    const [report] = analyzePumpSwitching(planning(24, [23]), params);
+
+    expect(report.minOnViolations).toBe(0);
+    expect(report.minOffViolations).toBe(0);
+    expect(report.violation).toBe(0);
+  });
+
+  it('converts minimum times to steps at sub-hourly resolution', () => {
+    // 15 min steps: a 45 min run misses 3 steps of a 1.5h minimum run
+    const params = switchingParams({ minOnTime: 1.5 }, { stepMinutes: 15 });
+    const [report] = analyzePumpSwitching(planning(96, [10, 11, 12]), params);
+
+    expect(report.minOnViolations).toBe(1);
+    expect(report.violation).toBeCloseTo(0.75);
+  });
+});
+
+describe('calculateDemandCharge', () => {
+  const powerTariff = { subscribedPower: 500, powerCharge: 3000, overrunPenalty: 200 };
+  const monthlySubscription = 500 * 3000;
+
+  it('prorates the monthly subscription to the horizon', () => {
+    const day = calculateDemandCharge(400, { powerTariff, horizonHours: 24 });
+    const threeDays = calculateDemandCharge(400, { powerTariff, horizonHours: 72 });
+
+    expect(day.demandCharge).toBeCloseTo(monthlySubscription / DAYS_PER_BILLING_MONTH);
+    expect(threeDays.demandCharge).toBeCloseTo(3 * day.demandCharge);
+    expect(day.powerOverrun).toBe(0);
+  });
+
+  it('bills each kW above the subscribed power once, whatever the horizon', () => {
+    const day = calculateDemandCharge(560, { powerTariff, horizonHours: 24 });
+    const twoDays = calculateDemandCharge(560, { powerTariff, horizonHours: 48 });
+
+    expect(day.powerOverrun).toBe(60);
+    expect(day.demandCharge).toBeCloseTo(monthlySubscription / DAYS_PER_BILLING_MONTH + 60 * 200);
+    expect(twoDays.demandCharge - day.demandCharge).toBeCloseTo(monthlySubscription / DAYS_PER_BILLING_MONTH);
+  });
+
+  it('is free without a power tariff', () => {
+    expect(calculateDemandCharge(900, { horizonHours: 24 })).toEqual({ demandCharge: 0, powerOverrun: 0 });
+  });
+});
+
+describe('grid outages', () => {
+  const genset = { power: 400, fuelConsumption: 0.3, fuelPrice: 700 };
+
+  function outageParams(overrides: Partial<PumpScheduleParams>): PumpScheduleParams {
+    return {
+      ...switchingParams({}, { stepMinutes: 30, horizonHours: 6 }),
+      tariffs: Array(12).fill(100),
+      powerTariff: { subscribedPower: 900, powerCharge: 3000, overrunPenalty: 200 },
+      ...overrides
+    };
+  }
+
+  it('masks every step that overlaps an outage', () => {
+    // 30 min steps: 1h15-2h covers steps 2 and 3, 5h-5h30 covers step 10
+    const mask = buildOutageMask(outageParams({ outages: [{ start: 1.25, end: 2 }, { start: 5, end: 5.5 }] }));
+
+    expect(mask.flatMap((outage, step) => (outage ? [step] : []))).toEqual([2, 3, 10]);
+  });
+
+  it('prices outage steps at the diesel cost and limits them to the genset rating', () => {
+    const params = outageParams({ outages: [{ start: 1, end: 2 }], genset });
+    const prices = stepEnergyPrices(params);
+    const limits = stepPowerLimits(params);
+
+    expect(prices.slice(1, 5)).toEqual([100, 210, 210, 100]);
+    expect(limits.slice(1, 5)).toEqual([900, 400, 400, 900]);
+  });
+
+  it('allows no pumping during an outage without a genset', () => {
+    const params = outageParams({ outages: [{ start: 0, end: 1 }] });
+
+    expect(stepPowerLimits(params).slice(0, 3)).toEqual([0, 0, 900]);
+    expect(stepEnergyPrices(params).slice(0, 3)).toEqual([100, 100, 100]);
+  });
+});
@@ -0,0 +1,765 @@
+// Pump Schedule Model for ONEA-OPT
+// Hydraulic and energy simulation of a pump planning, shared by the optimizer and the UI
+
+import {
+  stepReservoirs,
+  aggregateLevel,
+  endLevelShortfall,
+  levelToVolume,
+  volumeToLevel,
+  mapPumpsToReservoirs,
+  demandShares,
+  type ReservoirParams
+} from './reservoir-model';
+import {
+  solveOperatingPoints,
+  VFD_COS_PHI,
+  type PumpCurve,
+  type SystemCurve,
+  type VariableSpeedDrive
+} from './pump-curves';
+
+export type { ReservoirParams } from './reservoir-model';
+export type { PumpCurve, SystemCurve, VariableSpeedDrive } from './pump-curves';
+
+export interface SchedulePump {
+  id: string;
+  power: number; // kW
+  efficiency: number; // kWh/m³
+  maxFlow: number; // m³/h
+  cosPhi?: number; // Rated power factor at load (default: DEFAULT_PUMP_COS_PHI)
+  initiallyOn?: boolean; // State before the first step (default: stopped)
+  curve?: PumpCurve; // H-Q and efficiency curves, used with params.systemCurve
+  vfd?: VariableSpeedDrive; // Variable speed drive; without one, the pump runs direct on line at full speed
+}
+
+export interface PumpScheduleParams {
+  demand: number[]; // Demand per time step in m³/h
+  demandScenarios?: number[][]; // Alternative demand trajectories (m³/h per step) for robust scheduling
+  tariffs: number[]; // Tariff per time step in FCFA/kWh
+  stepMinutes?: number; // Time step length: 60 (default), 30 or 15 min
+  horizonHours?: number; // Planning horizon: 24h (default), 48h or 72h
+  reservoirs: ReservoirParams[]; // Station tanks with their current level and limits
+  pumps: SchedulePump[];
+  availability?: PumpAvailabilityWindow[]; // Periods during which a pump cannot run
+  locks?: PumpLock[]; // Periods imposed by the operator, kept as is by the optimizer
+  powerTariff?: PowerTariff; // Subscribed power billing, ignored when absent
+  capacitorBank?: CapacitorBank; // Switchable reactive compensation, none when absent
+  reactiveEnergyPrice?: number; // FCFA per kVArh above the allowance of minCosPhi (no penalty when absent)
+  outages?: GridOutage[]; // Announced grid load-shedding periods
+  genset?: Genset; // Diesel backup, pumps only run on solar during outages when absent
+  solarProduction?: number[]; // kW of PV output per step, used by the pumps before the grid
+  battery?: Battery; // Charged from PV surplus only, none when absent
+  systemCurve?: SystemCurve; // With a curve on every pump, flows and powers follow the operating point
+  constraints: {
+    minCosPhi: number;
+    maxActivePumps: number;
+    minOnTime?: number; // Hours a pump must keep running once started
+    minOffTime?: number; // Hours a pump must stay stopped once stopped
+    maxStartsPerDay?: number; // Starts allowed per pump and per day
+    startupEnergy?: number; // kWh drawn by each start, billed at the step tariff
+  };
+}
+
+export interface PowerTariff {
+  subscribedPower: number; // kW - puissance souscrite
+  powerCharge: number; // FCFA per subscribed kW and per month
+  overrunPenalty: number; // FCFA per kW of peak demand above the subscribed power
+}
+
+export interface CapacitorBank {
+  steps: number; // Switchable capacitor steps
+  kvarPerStep: number; // kVAr compensated by each engaged step
+}
+
+export interface GridOutage {
+  start: number; // Hours from the start of the horizon
+  end: number; // Hours from the start of the horizon (exclusive)
+  reason?: string; // e.g. 'délestage SONABEL'
+}
+
+export interface Genset {
+  power: number; // kW - rated output
+  fuelConsumption: number; // Litres of diesel per kWh delivered
+  fuelPrice: number; // FCFA per litre
+}
+
+export interface Battery {
+  capacity: number; // kWh
+  efficiency: number; // Round-trip efficiency (0-1)
+  minSoc: number; // % of capacity kept in reserve
+  maxSoc: number; // % of capacity
+  initialSoc: number; // % at the start of the horizon
+  maxPower: number; // kW - charge and discharge limit
+}
+
+export interface PumpAvailabilityWindow {
+  pumpId: string;
+  start: number; // Hours from the start of the horizon
+  end: number; // Hours from the start of the horizon (exclusive)
+  reason?: string; // e.g. 'maintenance'
+}
+
+export interface PumpLock {
+  pumpId: string;
+  start: number; // Hours from the start of the horizon
+  end: number; // Hours from the start of the horizon (exclusive)
+  on: boolean; // Pump forced running (true) or stopped (false)
+}
+
+export interface PumpSwitchingReport {
+  pumpId: string;
+  starts: number; // Over the whole horizon
+  maxStartsInADay: number;
+  minOnViolations: number; // Runs shorter than minOnTime
+  minOffViolations: number; // Stops shorter than minOffTime
+  excessStarts: number; // Starts above maxStartsPerDay, summed over days
+  violation: number; // Missing run/rest hours plus excess starts
+}
+
+export interface ScheduleSimulation {
+  pumpsActive: number[]; // Active pump count per step
+  production: number[]; // m³ pumped per step
+  energy: number[]; // kWh per step
+  stepCosts: number[]; // FCFA per step
+  cost: number; // FCFA
+  reservoirLevels: number[]; // Combined level (% of total capacity) at each step boundary
+  reservoirTrajectories: Record<string, number[]>; // Level of each reservoir at each step boundary
+  reservoirViolation: number; // Cumulated % outside min/max levels, plus end level shortfall
+  spilledVolume: number; // m³ lost by overflow
+  unservedVolume: number; // m³ of demand not served
+  levelVariation: number; // Cumulated |Δ level| in %
+  switches: number; // Pump starts + stops
+  startupCost: number; // FCFA spent on start-up energy (included in cost)
+  peakPower: number; // kW - highest power drawn from the grid
+  powerOverrun: number; // kW of peak above the subscribed power
+  demandCharge: number; // FCFA - subscribed power and overrun penalty (included in cost)
+  reactiveEnergy: number[]; // kVArh exchanged per step, net of capacitor compensation
+  reactivePenalty: number; // FCFA billed for reactive energy above the Cos φ allowance (included in cost)
+  onGenset: boolean[]; // Steps where pumps run on the genset during a grid outage
+  gensetEnergy: number; // kWh produced by the genset
+  fuelLitres: number;
+  gensetCost: number; // FCFA of diesel (included in cost)
+  gensetOverload: number; // Cumulated % of genset rating exceeded per hour (any pumping without genset)
+  gridImport: number[]; // kWh drawn from the grid per step (0 during outages)
+  importedPower: number[]; // kW drawn from the grid, or from the genset during outages, per step
+  solarEnergy: number; // kWh of PV delivered to the pumps, directly or through the battery
+  batterySoc: number[]; // Battery state of charge (%) at each step boundary, empty without battery
+  switchingReports: PumpSwitchingReport[];
+  switchingViolation: number; // Sum of the per-pump violations
+  cosPhi: number; // Power factor of the horizon, from active and reactive energy
+}
+
+export interface ScenarioSimulation {
+  nominal: ScheduleSimulation; // On the forecast demand
+  scenarioCount: number; // Demand trajectories evaluated, forecast included
+  expectedCost: number; // FCFA - mean over the forecast and the scenarios
+  expectedLevelVariation: number; // Mean cumulated |Δ level| in %
+  worstReservoirViolation: number; // Highest reservoir violation over the trajectories
+  levelEnvelope: { min: number[]; max: number[] }; // Combined level range at each step boundary
+}
+
+export const DEFAULT_STEP_MINUTES = 60;
+export const DEFAULT_PUMP_COS_PHI = 0.85;
+export const DEFAULT_HORIZON_HOURS = 24;
+export const DAYS_PER_BILLING_MONTH = 30;
+
+/**
+ * Number of time steps covered by the planning horizon
+ */
+export function getStepCount(params: Pick<PumpScheduleParams, 'stepMinutes' | 'horizonHours'>): number {
+  const stepMinutes = params.stepMinutes ?? DEFAULT_STEP_MINUTES;
+  const horizonHours = params.horizonHours ?? DEFAULT_HORIZON_HOURS;
+  return Math.round((horizonHours * 60) / stepMinutes);
+}
+
+/**
+ * Repeat an hourly profile (usually 24 values) over the horizon at the given step length
+ */
+export function resampleHourlyProfile(
+  hourly: number[],
+  stepMinutes: number = DEFAULT_STEP_MINUTES,
+  horizonHours: number = DEFAULT_HORIZON_HOURS
+): number[] {
+  const steps = getStepCount({ stepMinutes, horizonHours });
+  return Array.from({ length: steps }, (_, step) =>
+    hourly[Math.floor((step * stepMinutes) / 60) % hourly.length]
+  );
+}
+
+/**
+ * Clock label of a step, prefixed with the day offset after the first day (ex: "J+1 06h30")
+ */
+export function formatStepTime(step: number, stepMinutes: number = DEFAULT_STEP_MINUTES): string {
+  const totalMinutes = step * stepMinutes;
+  const day = Math.floor(totalMinutes / 1440);
+  const hours = Math.floor((totalMinutes % 1440) / 60).toString().padStart(2, '0');
+  const minutes = (totalMinutes % 60).toString().padStart(2, '0');
+  return `${day > 0 ? `J+${day} ` : ''}${hours}h${minutes}`;
+}
+
+/**
+ * Whether flows and powers come from the pump and system curves instead of the rated values
+ */
+export function usesPumpCurves(params: PumpScheduleParams): boolean {
+  return params.systemCurve !== undefined && params.pumps.every(p => p.curve !== undefined);
+}
+
+/**
+ * Flow a pump can deliver in one hour, limited by its rated power
+ */
+export function pumpFlow(pump: SchedulePump): number {
+  return Math.min(pump.maxFlow, pump.power / pump.efficiency);
+}
+
+/**
+ * Reactive power drawn by a running pump (kVAr), at its rated power unless given
+ * A pump behind a drive shows the drive's power factor to the grid.
+ */
+export function pumpReactivePower(pump: SchedulePump, power: number = pump.power): number {
+  const cosPhi = pump.vfd ? VFD_COS_PHI : pump.cosPhi ?? DEFAULT_PUMP_COS_PHI;
+  return power * Math.tan(Math.acos(cosPhi));
+}
+
+/**
+ * Net reactive power of a step (kVAr): pumps' demand minus engaged capacitor steps,
+ * negative when the bank over-compensates. powers[p] is the power drawn by pump p (rated by default).
+ */
+export function stepReactivePower(
+  stepPlan: number[],
+  params: PumpScheduleParams,
+  capacitorSteps: number,
+  powers?: number[]
+): number {
+  const demand = params.pumps.reduce(
+    (sum, pump, p) => sum + (stepPlan[p] ? pumpReactivePower(pump, powers?.[p]) : 0), 0
+  );
+  return demand - capacitorSteps * (params.capacitorBank?.kvarPerStep ?? 0);
+}
+
+/**
+ * Flow (m³/h) and power (kW) of each pump over a step: rated values, or the operating point of
+ * the pumps feeding each reservoir at its level (%). speeds[p] defaults to full speed.
+ */
+export function stepPumpOperation(
+  stepPlan: number[],
+  params: PumpScheduleParams,
+  levels: number[],
+  speeds?: number[]
+): { flow: number; power: number }[] {
+  const { pumps, systemCurve } = params;
+  if (!systemCurve || !usesPumpCurves(params)) {
+    return pumps.map(pump => ({ flow: pumpFlow(pump), power: pump.power }));
+  }
+
+  const pumpReservoir = mapPumpsToReservoirs(params.reservoirs, pumps.map(p => p.id));
+  const operation = pumps.map(() => ({ flow: 0, power: 0 }));
+  levels.forEach((level, r) => {
+    const group = pumps.map((_, p) => p).filter(p => pumpReservoir[p] === r && stepPlan[p]);
+    if (group.length === 0) return;
+    const points = solveOperatingPoints(
+      group.map(p => ({
+        curve: pumps[p].curve as PumpCurve,
+        speed: pumps[p].vfd ? Math.max(pumps[p].vfd.minSpeed, Math.min(1, speeds?.[p] ?? 1)) : 1,
+        drive: pumps[p].vfd !== undefined
+      })),
+      systemCurve,
+      level
+    );
+    group.forEach((p, i) => { operation[p] = { flow: points[i].flow, power: points[i].power }; });
+  });
+  return operation;
+}
+
+/**
+ * Capacitor steps that best cancel the pumps' reactive power at each step
+ */
+export function compensateReactivePower(pumpPlanning: number[][], params: PumpScheduleParams): number[] {
+  const bank = params.capacitorBank;
+  if (!bank || bank.kvarPerStep <= 0) return pumpPlanning.map(() => 0);
+
+  return pumpPlanning.map(stepPlan => {
+    const reactive = stepReactivePower(stepPlan, params, 0);
+    return Math.max(0, Math.min(bank.steps, Math.round(reactive / bank.kvarPerStep)));
+  });
+}
+
+/**
+ * Supply one step of pump energy from PV, then from the battery, the rest from the grid
+ * The battery only charges from PV surplus (curtailed when full) and discharges when allowed.
+ */
+function dispatchSolar(
+  load: number,
+  solar: number,
+  stored: number,
+  battery: Battery | undefined,
+  stepHours: number,
+  discharge: boolean
+): { direct: number; discharged: number; stored: number } {
+  const direct = Math.min(load, solar);
+  if (!battery) return { direct, discharged: 0, stored };
+
+  const legEfficiency = Math.sqrt(battery.efficiency); // Same losses charging and discharging
+  const maxEnergy = (battery.capacity * battery.maxSoc) / 100;
+  const minEnergy = (battery.capacity * battery.minSoc) / 100;
+  const charge = Math.min(solar - direct, battery.maxPower * stepHours, Math.max(0, maxEnergy - stored) / legEfficiency);
+  let next = stored + charge * legEfficiency;
+
+  const discharged = discharge
+    ? Math.min(load - direct, battery.maxPower * stepHours, Math.max(0, next - minEnergy) * legEfficiency)
+    : 0;
+  next -= discharged / legEfficiency;
+
+  return { direct, discharged, stored: next };
+}
+
+/**
+ * Outage mask: mask[step] is true when the step overlaps an announced grid outage
+ */
+export function buildOutageMask(params: PumpScheduleParams): boolean[] {
+  const stepHours = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) / 60;
+  const outages = params.outages ?? [];
+
+  return Array.from({ length: getStepCount(params) }, (_, step) => {
+    const stepStart = step * stepHours;
+    const stepEnd = stepStart + stepHours;
+    return outages.some(o => o.start < stepEnd && o.end > stepStart);
+  });
+}
+
+/**
+ * Energy price per step (FCFA/kWh): grid tariff, or diesel cost during outages
+ */
+export function stepEnergyPrices(params: PumpScheduleParams): number[] {
+  const { genset } = params;
+  return buildOutageMask(params).map((outage, step) =>
+    outage && genset ? genset.fuelConsumption * genset.fuelPrice : params.tariffs[step]
+  );
+}
+
+/**
+ * Power the running pumps may draw per step (kW): subscribed power on the grid,
+ * genset rating during outages (nothing without a genset)
+ */
+export function stepPowerLimits(params: PumpScheduleParams): number[] {
+  const gridLimit = params.powerTariff?.subscribedPower ?? Infinity;
+  return buildOutageMask(params).map((outage, step) =>
+    (outage ? params.genset?.power ?? 0 : gridLimit) + (params.solarProduction?.[step] ?? 0)
+  );
+}
+
+/**
+ * Simulate a per-pump planning (pumpPlanning[step][pumpIndex] = 0 | 1) over the horizon,
+ * with capacitorPlanning[step] capacitor steps engaged (none by default) and drives at
+ * speedPlanning[step][pumpIndex] (full speed by default)
+ * During grid outages the pumps run on the genset at diesel cost, outside the grid peak and Cos φ.
+ * PV output then the battery cover the pumps first, so only the remainder is imported and billed;
+ * the battery is kept for the steps dearer than the cheapest tariff of the horizon, and for outages.
+ */
+export function simulateSchedule(
+  pumpPlanning: number[][],
+  params: PumpScheduleParams,
+  capacitorPlanning?: number[],
+  speedPlanning?: number[][]
+): ScheduleSimulation {
+  const { demand, reservoirs, pumps, genset } = params;
+  const steps = getStepCount(params);
+  const stepHours = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) / 60;
+  const pumpReservoir = mapPumpsToReservoirs(reservoirs, pumps.map(p => p.id));
+  const shares = demandShares(reservoirs);
+  const outages = buildOutageMask(params);
+  const prices = stepEnergyPrices(params);
+  const overloadReference = genset?.power ?? pumps.reduce((sum, p) => sum + p.power, 0);
+  const cheapestTariff = Math.min(...params.tariffs.slice(0, steps));
+  const { battery } = params;
+  const curves = usesPumpCurves(params);
+
+  const pumpsActive: number[] = [];
+  const production: number[] = [];
+  const energy: number[] = [];
+  const stepCosts: number[] = [];
+  const reactiveEnergy: number[] = [];
+  const onGenset: boolean[] = [];
+  const gridImport: number[] = [];
+  const importedPowers: number[] = [];
+  const batterySoc: number[] = battery ? [battery.initialSoc] : [];
+
+  let volumes = reservoirs.map(r => levelToVolume(r, r.initialLevel));
+  const reservoirLevels: number[] = [aggregateLevel(reservoirs, volumes)];
+  const reservoirTrajectories: Record<string, number[]> = {};
+  reservoirs.forEach(r => { reservoirTrajectories[r.id] = [r.initialLevel]; });
+
+  let totalCost = 0;
+  let reservoirViolation = 0;
+  let levelVariation = 0;
+  let switches = 0;
+  let startupCost = 0;
+  let peakPower = 0;
+  let activeEnergy = 0;
+  let gensetEnergy = 0;
+  let gensetOverload = 0;
+  let solarEnergy = 0;
+  let stored = battery ? (battery.capacity * battery.initialSoc) / 100 : 0;
+  let spilledVolume = 0;
+  let unservedVolume = 0;
+
+  for (let step = 0; step < steps; step++) {
+    const stepPlan = pumpPlanning[step];
+
+    // Running pumps deliver their full flow into their own reservoir
+    const inflows = reservoirs.map(() => 0);
+    let stepProduction = 0;
+    let energyKWh = 0;
+    let stepPower = 0;
+    let stepStarts = 0;
+    const operation = stepPumpOperation(
+      stepPlan,
+      params,
+      reservoirs.map((r, i) => volumeToLevel(r, volumes[i])),
+      speedPlanning?.[step]
+    );
+    for (let p = 0; p < pumps.length; p++) {
+      const wasOn = step > 0 ? pumpPlanning[step - 1][p] : (pumps[p].initiallyOn ? 1 : 0);
+      if (stepPlan[p] && !wasOn) stepStarts++;
+      if (!stepPlan[p]) continue;
+      const volume = operation[p].flow * stepHours;
+      inflows[pumpReservoir[p]] += volume;
+      stepProduction += volume;
+      energyKWh += curves ? operation[p].power * stepHours : volume * pumps[p].efficiency;
+      stepPower += operation[p].power;
+    }
+
+    // Start-up inrush energy
+    const startupEnergy = stepStarts * (params.constraints.startupEnergy ?? 0);
+    energyKWh += startupEnergy;
+    startupCost += startupEnergy * prices[step];
+
+    // PV and battery first, the remainder comes from the grid or the genset
+    const supply = dispatchSolar(
+      energyKWh,
+      (params.solarProduction?.[step] ?? 0) * stepHours,
+      stored,
+      battery,
+      stepHours,
+      outages[step] || params.tariffs[step] > cheapestTariff
+    );
+    stored = supply.stored;
+    if (battery) batterySoc.push((stored / battery.capacity) * 100);
+    solarEnergy += supply.direct + supply.discharged;
+    const importedKWh = energyKWh - supply.direct - supply.discharged;
+    const importedPower = Math.max(0, stepPower - (supply.direct + supply.discharged) / stepHours);
+    importedPowers.push(importedPower);
+
+    if (outages[step]) {
+      // Grid down: the genset carries the pumps, SONABEL bills nothing
+      onGenset.push(importedKWh > 0);
+      reactiveEnergy.push(0);
+      gridImport.push(0);
+      if (genset) gensetEnergy += importedKWh;
+      gensetOverload += (Math.max(0, importedPower - (genset?.power ?? 0)) / overloadReference) * 100 * stepHours;
+    } else {
+      onGenset.push(false);
+      gridImport.push(importedKWh);
+      peakPower = Math.max(peakPower, importedPower);
+      // Reactive energy, over- and under-compensation alike
+      activeEnergy += importedPower * stepHours;
+      const reactive = stepReactivePower(stepPlan, params, capacitorPlanning?.[step] ?? 0, operation.map(o => o.power));
+      reactiveEnergy.push(Math.abs(reactive) * stepHours);
+    }
+
+    const stepCost = importedKWh * prices[step];
+    totalCost += stepCost;
+
+    // Volume balance of the reservoirs
+    const balance = stepReservoirs(reservoirs, volumes, inflows, demand[step] * stepHours, shares);
+    reservoirs.forEach((reservoir, i) => {
+      const level = volumeToLevel(reservoir, balance.volumes[i]);
+      const trajectory = reservoirTrajectories[reservoir.id];
+      levelVariation += Math.abs(level - trajectory[trajectory.length - 1]);
+      trajectory.push(level);
+    });
+    volumes = balance.volumes;
+    reservoirViolation += balance.violation;
+    spilledVolume += balance.spilled;
+    unservedVolume += balance.unserved;
+
+    // Count pump starts/stops
+    if (step > 0) {
+      for (let p = 0; p < pumps.length; p++) {
+        if ((stepPlan[p] ? 1 : 0) !== (pumpPlanning[step - 1][p] ? 1 : 0)) switches++;
+      }
+    }
+
+    pumpsActive.push(stepPlan.reduce((a, b) => a + (b ? 1 : 0), 0));
+    production.push(stepProduction);
+    energy.push(energyKWh);
+    stepCosts.push(stepCost);
+    reservoirLevels.push(aggregateLevel(reservoirs, volumes));
+  }
+
+  // The horizon must not be paid for by emptying the tanks
+  reservoirViolation += endLevelShortfall(reservoirs, volumes);
+
+  const switchingReports = analyzePumpSwitching(pumpPlanning, params);
+  const powerBilling = calculateDemandCharge(peakPower, params);
+
+  // Power factor of the horizon and SONABEL penalty on the reactive energy above its allowance
+  const totalReactive = reactiveEnergy.reduce((a, b) => a + b, 0);
+  const cosPhi = activeEnergy > 0 ? activeEnergy / Math.hypot(activeEnergy, totalReactive) : 1;
+  const reactiveAllowance = activeEnergy * Math.tan(Math.acos(params.constraints.minCosPhi));
+  const reactivePenalty = Math.max(0, totalReactive - reactiveAllowance) * (params.reactiveEnergyPrice ?? 0);
+
+  return {
+    pumpsActive,
+    production,
+    energy,
+    stepCosts,
+    cost: totalCost + powerBilling.demandCharge + reactivePenalty,
+    reservoirLevels,
+    reservoirTrajectories,
+    reservoirViolation,
+    spilledVolume,
+    unservedVolume,
+    levelVariation,
+    switches,
+    startupCost,
+    peakPower,
+    powerOverrun: powerBilling.powerOverrun,
+    demandCharge: powerBilling.demandCharge,
+    reactiveEnergy,
+    reactivePenalty,
+    onGenset,
+    gensetEnergy,
+    fuelLitres: gensetEnergy * (genset?.fuelConsumption ?? 0),
+    gensetCost: gensetEnergy * (genset ? genset.fuelConsumption * genset.fuelPrice : 0),
+    gensetOverload,
+    gridImport,
+    importedPower: importedPowers,
+    solarEnergy,
+    batterySoc,
+    switchingReports,
+    switchingViolation: switchingReports.reduce((sum, r) => sum + r.violation, 0),
+    cosPhi
+  };
+}
+
+/**
+ * Simulate a planning on the forecast demand and on each demand scenario, equally weighted
+ * Without scenarios, this is the nominal simulation alone.
+ */
+export function simulateScenarios(
+  pumpPlanning: number[][],
+  params: PumpScheduleParams,
+  capacitorPlanning?: number[],
+  speedPlanning?: number[][]
+): ScenarioSimulation {
+  const nominal = simulateSchedule(pumpPlanning, params, capacitorPlanning, speedPlanning);
+  const simulations = [
+    nominal,
+    ...(params.demandScenarios ?? []).map(demand =>
+      simulateSchedule(pumpPlanning, { ...params, demand }, capacitorPlanning, speedPlanning)
+    )
+  ];
+
+  return {
+    nominal,
+    scenarioCount: simulations.length,
+    expectedCost: simulations.reduce((sum, s) => sum + s.cost, 0) / simulations.length,
+    expectedLevelVariation: simulations.reduce((sum, s) => sum + s.levelVariation, 0) / simulations.length,
+    worstReservoirViolation: Math.max(...simulations.map(s => s.reservoirViolation)),
+    levelEnvelope: {
+      min: nominal.reservoirLevels.map((_, i) => Math.min(...simulations.map(s => s.reservoirLevels[i]))),
+      max: nominal.reservoirLevels.map((_, i) => Math.max(...simulations.map(s => s.reservoirLevels[i])))
+    }
+  };
+}
+
+/**
+ * Demand charge of a peak power over the horizon: the subscribed power is billed monthly and
+ * prorated to the horizon, each kW above it pays the overrun penalty once.
+ */
+export function calculateDemandCharge(
+  peakPower: number,
+  params: Pick<PumpScheduleParams, 'powerTariff' | 'horizonHours'>
+): { demandCharge: number; powerOverrun: number } {
+  const tariff = params.powerTariff;
+  if (!tariff) return { demandCharge: 0, powerOverrun: 0 };
+
+  const days = (params.horizonHours ?? DEFAULT_HORIZON_HOURS) / 24;
+  const powerOverrun = Math.max(0, peakPower - tariff.subscribedPower);
+  const subscription = tariff.subscribedPower * tariff.powerCharge * (days / DAYS_PER_BILLING_MONTH);
+
+  return {
+    demandCharge: subscription + powerOverrun * tariff.overrunPenalty,
+    powerOverrun
+  };
+}
+
+/**
+ * Check minimum run/rest times and daily start limits for each pump
+ * Runs or rests cut by the horizon boundaries are not counted as violations.
+ */
+export function analyzePumpSwitching(pumpPlanning: number[][], params: PumpScheduleParams): PumpSwitchingReport[] {
+  const { pumps, constraints } = params;
+  const stepMinutes = params.stepMinutes ?? DEFAULT_STEP_MINUTES;
+  const stepHours = stepMinutes / 60;
+  const steps = getStepCount(params);
+  const minOnSteps = Math.ceil((constraints.minOnTime ?? 0) / stepHours);
+  const minOffSteps = Math.ceil((constraints.minOffTime ?? 0) / stepHours);
+
+  return pumps.map((pump, p) => {
+    const startsPerDay = new Map<number, number>();
+    let starts = 0;
+    let minOnViolations = 0;
+    let minOffViolations = 0;
+    let missingSteps = 0;
+
+    let state = pump.initiallyOn ? 1 : 0;
+    let runLength = 0;
+    let seenTransition = false; // The first run/rest has an unknown start
+
+    const closeRun = (wasOn: number) => {
+      if (!seenTransition) return;
+      if (wasOn && runLength < minOnSteps) {
+        minOnViolations++;
+        missingSteps += minOnSteps - runLength;
+      }
+      if (!wasOn && runLength < minOffSteps) {
+        minOffViolations++;
+        missingSteps += minOffSteps - runLength;
+      }
+    };
+
+    for (let step = 0; step < steps; step++) {
+      const on = pumpPlanning[step][p] ? 1 : 0;
+      if (on !== state) {
+        closeRun(state);
+        seenTransition = true;
+        runLength = 0;
+        if (on) {
+          starts++;
+          const day = Math.floor((step * stepMinutes) / 1440);
+          startsPerDay.set(day, (startsPerDay.get(day) ?? 0) + 1);
+        }
+        state = on;
+      }
+      runLength++;
+    }
+
+    const dailyStarts = [...startsPerDay.values()];
+    const maxStarts = constraints.maxStartsPerDay ?? Infinity;
+    const excessStarts = dailyStarts.reduce((sum, n) => sum + Math.max(0, n - maxStarts), 0);
+
+    return {
+      pumpId: pump.id,
+      starts,
+      maxStartsInADay: dailyStarts.length > 0 ? Math.max(...dailyStarts) : 0,
+      minOnViolations,
+      minOffViolations,
+      excessStarts,
+      violation: missingSteps * stepHours + excessStarts
+    };
+  });
+}
+
+/**
+ * Expand active pump counts into a per-pump planning, running the most efficient pumps first
+ * Pumps marked unavailable in the optional mask are skipped.
+ */
+export function planningFromPumpCounts(
+  counts: number[],
+  pumps: SchedulePump[],
+  availability?: boolean[][]
+): number[][] {
+  const byEfficiency = pumps
+    .map((pump, index) => ({ index, efficiency: pump.efficiency }))
+    .sort((a, b) => a.efficiency - b.efficiency);
+
+  return counts.map((count, step) => {
+    const stepPlan = pumps.map(() => 0);
+    byEfficiency
+      .filter(({ index }) => availability?.[step]?.[index] ?? true)
+      .slice(0, count)
+      .forEach(({ index }) => { stepPlan[index] = 1; });
+    return stepPlan;
+  });
+}
+
+/**
+ * Availability mask: mask[step][pumpIndex] is false when the step overlaps an unavailability window
+ */
+export function buildAvailabilityMask(params: PumpScheduleParams): boolean[][] {
+  const stepHours = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) / 60;
+  const windows = params.availability ?? [];
+
+  return Array.from({ length: getStepCount(params) }, (_, step) => {
+    const stepStart = step * stepHours;
+    const stepEnd = stepStart + stepHours;
+    return params.pumps.map(pump => !windows.some(
+      w => w.pumpId === pump.id && w.start < stepEnd && w.end > stepStart
+    ));
+  });
+}
+
+/**
+ * Operator locks per step: mask[step][pumpIndex] is 1 or 0 when locked, null when free
+ * Unavailability wins over a lock forcing the pump on.
+ */
+export function buildLockMask(params: PumpScheduleParams): (number | null)[][] {
+  const stepHours = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) / 60;
+  const locks = params.locks ?? [];
+  const availability = buildAvailabilityMask(params);
+
+  return availability.map((stepAvailability, step) => {
+    const stepStart = step * stepHours;
+    const stepEnd = stepStart + stepHours;
+    return params.pumps.map((pump, p) => {
+      if (!stepAvailability[p]) return 0;
+      const lock = locks.find(l => l.pumpId === pump.id && l.start < stepEnd && l.end > stepStart);
+      return lock ? (lock.on ? 1 : 0) : null;
+    });
+  });
+}
+
+/**
+ * Convert a per-pump planning to another time step and horizon
+ * A shorter source planning is repeated (e.g. yesterday's 24h plan over a 72h horizon).
+ */
+export function resamplePlanning(
+  planning: number[][],
+  fromStepMinutes: number,
+  stepMinutes: number,
+  horizonHours: number
+): number[][] {
+  const steps = getStepCount({ stepMinutes, horizonHours });
+  if (planning.length === 0) return [];
+
+  return Array.from({ length: steps }, (_, step) => {
+    const sourceStep = Math.floor((step * stepMinutes) / fromStepMinutes) % planning.length;
+    return [...planning[sourceStep]];
+  });
+}
+
+/**
+ * Calculate uniform schedule cost (baseline)
+ */
+export function calculateUniformCost(params: PumpScheduleParams): number {
+  const { demand, pumps } = params;
+  const avgPumpEfficiency = pumps.reduce((sum, p) => sum + p.efficiency, 0) / pumps.length;
+  const stepHours = (params.stepMinutes ?? DEFAULT_STEP_MINUTES) / 60;
+  const outages = buildOutageMask(params);
+  const prices = stepEnergyPrices(params);
+
+  let totalCost = 0;
+  let peakPower = 0;
+
+  for (let step = 0; step < getStepCount(params); step++) {
+    const solarKWh = (params.solarProduction?.[step] ?? 0) * stepHours;
+    const energyKWh = Math.max(0, demand[step] * stepHours * avgPumpEfficiency - solarKWh);
+    totalCost += energyKWh * prices[step];
+    if (!outages[step]) peakPower = Math.max(peakPower, energyKWh / stepHours);
+  }
+  totalCost += calculateDemandCharge(peakPower, params).demandCharge;
+
+  return Math.round(totalCost);
+}
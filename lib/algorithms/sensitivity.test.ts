@@ -0,0 +1,107 @@
+import { describe, expect, it } from 'vitest';
+import { applyVariation, runSensitivityAnalysis } from './sensitivity';
+import { buildOptimizedSchedule } from './nsga2';
+import type { PumpScheduleParams } from './schedule-model';
+import {
+  ZIGA_STATION,
+  buildStationReservoirs,
+  generateDemandProfile,
+  generateTariffSchedule
+} from '../data/ziga-mock-data';
+
+const params: PumpScheduleParams = {
+  demand: generateDemandProfile(new Date(2024, 5, 1), 60, 24, { seed: 3 }),
+  demandScenarios: [Array(24).fill(1000)],
+  tariffs: generateTariffSchedule(),
+  reservoirs: buildStationReservoirs(),
+  pumps: ZIGA_STATION.pumps.map(p => ({
+    id: p.id,
+    power: p.power,
+    efficiency: p.efficiency,
+    maxFlow: p.maxFlow,
+    curve: p.curve
+  })),
+  constraints: { minCosPhi: 0.9, maxActivePumps: 3 }
+};
+
+describe('applyVariation', () => {
+  it('scales the demand forecast and its scenarios', () => {
+    const varied = applyVariation(params, 'demand', 0.1);
+
+    expect(varied.demand[5]).toBeCloseTo(params.demand[5] * 1.1);
+    expect(varied.demandScenarios?.[0][0]).toBeCloseTo(1100);
+    expect(varied.tariffs).toBe(params.tariffs);
+  });
+
+  it('scales the energy prices per step', () => {
+    const varied = applyVariation(params, 'tariff', -0.2);
+
+    expect(varied.tariffs.map(t => Math.round(t))).toEqual(params.tariffs.map(t => Math.round(t * 0.8)));
+  });
+
+  it('makes pumps use less energy per m³ when efficiency improves, within the curve ceiling', () => {
+    const varied = applyVariation(params, 'efficiency', 0.2);
+    const [pump] = varied.pumps;
+    const [original] = params.pumps;
+
+    expect(pump.efficiency).toBeCloseTo(original.efficiency / 1.2);
+    expect(pump.power).toBeCloseTo(original.power / 1.2);
+    expect(pump.maxFlow).toBe(original.maxFlow);
+    expect(pump.curve?.bestEfficiency).toBeLessThanOrEqual(0.9);
+  });
+
+  it('moves the start level but keeps the end-of-day target', () => {
+    const varied = applyVariation(params, 'initialLevel', -0.1);
+
+    varied.reservoirs.forEach((reservoir, i) => {
+      const original = params.reservoirs[i];
+      expect(reservoir.initialLevel).toBeCloseTo(original.initialLevel * 0.9);
+      expect(reservoir.targetEndLevel).toBe(original.targetEndLevel ?? original.initialLevel);
+    });
+  });
+
+  it('clamps the Cos φ threshold to a realistic range', () => {
+    expect(applyVariation(params, 'cosPhiThreshold', -0.1).constraints.minCosPhi).toBeCloseTo(0.81);
+    expect(applyVariation(params, 'cosPhiThreshold', 0.2).constraints.minCosPhi).toBe(0.99);
+  });
+});
+
+describe('runSensitivityAnalysis', () => {
+  const planning = Array.from({ length: 24 }, (_, step) =>
+    params.pumps.map((_, p) => ((step + p) % 3 ? 1 : 0))
+  );
+  const base = buildOptimizedSchedule(planning, params);
+  // Stand-in optimizer: keeps the warm-start planning, re-costed on the case
+  const keepPlanning = async (caseParams: PumpScheduleParams, seedPlanning?: number[][]) =>
+    ({ ...buildOptimizedSchedule(seedPlanning ?? planning, caseParams), paretoFront: [] });
+
+  it('runs every case, sorts the tornado by swing and puts the base case in the spider', async () => {
+    const analysis = await runSensitivityAnalysis(params, base, keepPlanning, {
+      parameters: ['demand', 'tariff'],
+      variations: [-0.1, 0, 0.1]
+    });
+
+    expect(analysis?.cases).toHaveLength(4);
+    expect(analysis?.joint.map(c => c.variation)).toEqual([0.1, -0.1]);
+    expect(analysis?.tornado[0].swing).toBeGreaterThanOrEqual(analysis?.tornado[1].swing ?? 0);
+    expect(analysis?.spider.map(point => point.variation)).toEqual([-0.1, 0, 0.1]);
+    expect(analysis?.spider[1].costs.tariff).toBe(base.cost);
+  });
+
+  it('costs a higher tariff more for the same planning', async () => {
+    const analysis = await runSensitivityAnalysis(params, base, keepPlanning, {
+      parameters: ['tariff'],
+      variations: [-0.1, 0.1]
+    });
+    const [low, high] = analysis?.cases ?? [];
+
+    expect(high.cost).toBeGreaterThan(low.cost);
+    expect(high.fixedPlanCost).toBe(high.cost);
+  });
+
+  it('stops when a run is cancelled', async () => {
+    const analysis = await runSensitivityAnalysis(params, base, async () => null);
+
+    expect(analysis).toBeNull();
+  });
+});
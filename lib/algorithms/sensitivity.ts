@@ -0,0 +1,248 @@
+// Sensitivity Analysis for ONEA-OPT
+// One-at-a-time and joint parameter variations, re-optimized for each case: tornado and spider data
+
+import { buildOptimizedSchedule, type OptimizedSchedule } from './nsga2';
+import type { PumpScheduleParams } from './schedule-model';
+import type { ScheduleOptimizer } from './rolling-horizon';
+
+export type SensitivityParameter = 'demand' | 'tariff' | 'efficiency' | 'initialLevel' | 'cosPhiThreshold';
+
+export interface SensitivityCase {
+  parameter: SensitivityParameter | 'joint';
+  variation: number; // Relative change of the parameter (0.1 = +10%); for 'joint', signed severity (+ = adverse)
+  cost: number; // FCFA of the schedule re-optimized for the case
+  savings: number; // FCFA vs the uniform schedule of the case
+  fixedPlanCost: number; // FCFA of the base schedule kept as is under the case
+  constraintViolation: number; // Of the re-optimized schedule
+}
+
+export interface TornadoBar {
+  parameter: SensitivityParameter;
+  low: SensitivityCase; // Case at the lowest variation
+  high: SensitivityCase; // Case at the highest variation
+  swing: number; // FCFA - |high.cost - low.cost|, bars are sorted by it
+}
+
+export interface SpiderPoint {
+  variation: number;
+  costs: Partial<Record<SensitivityParameter, number>>;
+  savings: Partial<Record<SensitivityParameter, number>>;
+}
+
+export interface SensitivityAnalysis {
+  baseCost: number;
+  baseSavings: number;
+  cases: SensitivityCase[]; // One-at-a-time cases
+  tornado: TornadoBar[];
+  spider: SpiderPoint[]; // Base case included at variation 0
+  joint: SensitivityCase[]; // Every parameter moved at once in its adverse, then favourable, direction
+}
+
+export interface SensitivityOptions {
+  parameters?: SensitivityParameter[];
+  variations?: number[]; // Relative changes, 0 is skipped (base case)
+  onCase?: (done: number, total: number) => void;
+}
+
+// Sensitivity Parameters
+export const SENSITIVITY_PARAMETERS: SensitivityParameter[] = [
+  'demand',
+  'tariff',
+  'efficiency',
+  'initialLevel',
+  'cosPhiThreshold'
+];
+export const SENSITIVITY_LABELS: Record<SensitivityParameter, string> = {
+  demand: 'Demande',
+  tariff: 'Tarif énergie',
+  efficiency: 'Rendement pompes',
+  initialLevel: 'Niveau initial réservoir',
+  cosPhiThreshold: 'Seuil Cos φ'
+};
+const VARIATIONS = [-0.2, -0.1, 0.1, 0.2];
+const MAX_BEST_EFFICIENCY = 0.9; // Wire-to-water ceiling for improved pump curves
+const COS_PHI_RANGE = [0.5, 0.99]; // Thresholds a tariff can realistically impose
+// Direction in which a rise of the parameter makes the day more expensive
+const ADVERSE_DIRECTION: Record<SensitivityParameter, 1 | -1> = {
+  demand: 1,
+  tariff: 1,
+  efficiency: -1,
+  initialLevel: -1,
+  cosPhiThreshold: 1
+};
+
+/**
+ * Problem with one parameter changed by a relative variation
+ * Demand scales the forecast and its scenarios; tariff the energy prices per step; efficiency the
+ * pumps' kWh/m³ and rated power (or the best efficiency of their curves); initialLevel the start level
+ * of each reservoir, the end-of-day target staying put; cosPhiThreshold the minimum Cos φ.
+ */
+export function applyVariation(
+  params: PumpScheduleParams,
+  parameter: SensitivityParameter,
+  variation: number
+): PumpScheduleParams {
+  const factor = 1 + variation;
+  switch (parameter) {
+    case 'demand':
+      return {
+        ...params,
+        demand: params.demand.map(d => d * factor),
+        demandScenarios: params.demandScenarios?.map(scenario => scenario.map(d => d * factor))
+      };
+    case 'tariff':
+      return { ...params, tariffs: params.tariffs.map(t => t * factor) };
+    case 'efficiency':
+      return {
+        ...params,
+        pumps: params.pumps.map(pump => ({
+          ...pump,
+          efficiency: pump.efficiency / factor,
+          power: pump.power / factor,
+          curve: pump.curve && {
+            ...pump.curve,
+            bestEfficiency: Math.min(MAX_BEST_EFFICIENCY, pump.curve.bestEfficiency * factor)
+          }
+        }))
+      };
+    case 'initialLevel':
+      return {
+        ...params,
+        reservoirs: params.reservoirs.map(r => ({
+          ...r,
+          initialLevel: Math.min(100, Math.max(0, r.initialLevel * factor)),
+          targetEndLevel: r.targetEndLevel ?? r.initialLevel
+        }))
+      };
+    case 'cosPhiThreshold':
+      return {
+        ...params,
+        constraints: {
+          ...params.constraints,
+          minCosPhi: Math.min(COS_PHI_RANGE[1], Math.max(COS_PHI_RANGE[0], params.constraints.minCosPhi * factor))
+        }
+      };
+  }
+}
+
+/**
+ * Re-optimize the schedule for each variation of each parameter, then for all parameters at once
+ * Every run is warm-started from the base schedule, which is also re-costed unchanged to show what
+ * re-optimizing is worth. Returns null when a run is cancelled.
+ */
+export async function runSensitivityAnalysis(
+  params: PumpScheduleParams,
+  base: OptimizedSchedule,
+  optimize: ScheduleOptimizer,
+  options?: SensitivityOptions
+): Promise<SensitivityAnalysis | null> {
+  const parameters = options?.parameters ?? SENSITIVITY_PARAMETERS;
+  const variations = (options?.variations ?? VARIATIONS).filter(v => v !== 0).sort((a, b) => a - b);
+  const severity = Math.max(...variations.map(Math.abs));
+  const total = parameters.length * variations.length + 2;
+  let done = 0;
+
+  const runCase = async (
+    parameter: SensitivityCase['parameter'],
+    variation: number,
+    caseParams: PumpScheduleParams
+  ): Promise<SensitivityCase | null> => {
+    const plan = await optimize(caseParams, base.pumpPlanning);
+    if (!plan) return null;
+    const fixed = buildOptimizedSchedule(
+      base.pumpPlanning, caseParams, undefined, base.capacitorPlanning, base.speedPlanning
+    );
+    options?.onCase?.(++done, total);
+    return {
+      parameter,
+      variation,
+      cost: plan.cost,
+      savings: plan.savings,
+      fixedPlanCost: fixed.cost,
+      constraintViolation: plan.constraintViolation
+    };
+  };
+
+  const cases: SensitivityCase[] = [];
+  for (const parameter of parameters) {
+    for (const variation of variations) {
+      const result = await runCase(parameter, variation, applyVariation(params, parameter, variation));
+      if (!result) return null;
+      cases.push(result);
+    }
+  }
+
+  const joint: SensitivityCase[] = [];
+  for (const direction of [1, -1]) {
+    const jointParams = parameters.reduce(
+      (current, parameter) => applyVariation(current, parameter, direction * ADVERSE_DIRECTION[parameter] * severity),
+      params
+    );
+    const result = await runCase('joint', direction * severity, jointParams);
+    if (!result) return null;
+    joint.push(result);
+  }
+
+  return {
+    baseCost: base.cost,
+    baseSavings: base.savings,
+    cases,
+    tornado: buildTornado(cases, parameters),
+    spider: buildSpider(cases, parameters, base, variations),
+    joint
+  };
+}
+
+function buildTornado(cases: SensitivityCase[], parameters: SensitivityParameter[]): TornadoBar[] {
+  return parameters
+    .map(parameter => {
+      const own = cases.filter(c => c.parameter === parameter);
+      const low = own[0];
+      const high = own[own.length - 1];
+      return { parameter, low, high, swing: Math.abs(high.cost - low.cost) };
+    })
+    .sort((a, b) => b.swing - a.swing);
+}
+
+function buildSpider(
+  cases: SensitivityCase[],
+  parameters: SensitivityParameter[],
+  base: OptimizedSchedule,
+  variations: number[]
+): SpiderPoint[] {
+  return [...variations, 0]
+    .sort((a, b) => a - b)
+    .map(variation => {
+      const point: SpiderPoint = { variation, costs: {}, savings: {} };
+      for (const parameter of parameters) {
+        const found = variation === 0 ? base : cases.find(c => c.parameter === parameter && c.variation === variation);
+        if (!found) continue;
+        point.costs[parameter] = found.cost;
+        point.savings[parameter] = found.savings;
+      }
+      return point;
+    });
+}
+
+/**
+ * Export algorithm configuration
+ */
+export function exportSensitivityConfig(): {
+  name: string;
+  version: string;
+  parameters: Record<string, number>;
+  description: string;
+} {
+  return {
+    name: 'Schedule Sensitivity Analysis',
+    version: '1.0.0',
+    parameters: {
+      parameterCount: SENSITIVITY_PARAMETERS.length,
+      maxVariation: Math.max(...VARIATIONS.map(Math.abs)),
+      maxBestEfficiency: MAX_BEST_EFFICIENCY,
+      minCosPhiThreshold: COS_PHI_RANGE[0],
+      maxCosPhiThreshold: COS_PHI_RANGE[1]
+    },
+    description: 'Varies demand, tariffs, pump efficiency, reservoir start level and the Cos φ threshold one at a time and jointly, re-optimizes the schedule for each case from the base plan and ranks the parameters by cost swing (tornado) and cost response (spider)'
+  };
+}
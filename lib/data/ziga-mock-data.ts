@@ -3,9 +3,20 @@
 
 import { detectAnomalies, type PumpDataPoint } from '../algorithms/isolation-forest';
 import { predictDemand } from '../algorithms/demand-predictor';
-import { optimizePumpSchedule, type PumpScheduleParams } from '../algorithms/nsga2';
+import {
+  optimizePumpSchedule,
+  type PumpScheduleParams,
+  type ReservoirParams,
+  type PumpAvailabilityWindow,
+  type GridOutage
+} from '../algorithms/nsga2';
+import { resampleHourlyProfile } from '../algorithms/schedule-model';
+import type { AppliedPlan, ForecastContext, LiveReading } from '../algorithms/rolling-horizon';
+import { resolveRandom, type RandomOptions } from '../algorithms/rng';
 
 // Station configuration
+type PumpStatus = 'active' | 'inactive' | 'maintenance';
+
 export const ZIGA_STATION = {
   id: 'ziga',
   name: 'Station Ziga',
@@ -17,20 +28,70 @@ export const ZIGA_STATION = {
   },
   reservoir: {
     capacity: 50000, // m³
+    usableVolume: 45000, // m³ above the outlet
     currentLevel: 78, // %
     minLevel: 60, // %
     maxLevel: 95 // %
   },
   pumps: [
-    { id: 'P1', name: 'Pompe P1', power: 450, efficiency: 1.75, maxFlow: 4000, status: 'active' as const },
-    { id: 'P2', name: 'Pompe P2', power: 450, efficiency: 1.80, maxFlow: 4000, status: 'active' as const },
-    { id: 'P3', name: 'Pompe P3', power: 450, efficiency: 1.85, maxFlow: 4000, status: 'inactive' as const }
+    {
+      id: 'P1', name: 'Pompe P1', power: 450, efficiency: 1.75, maxFlow: 4000, cosPhi: 0.86, status: 'active' as PumpStatus,
+      curve: { ratedFlow: 260, ratedHead: 470, shutoffHead: 560, bestEfficiency: 0.75 }
+    },
+    {
+      id: 'P2', name: 'Pompe P2', power: 450, efficiency: 1.80, maxFlow: 4000, cosPhi: 0.85, status: 'active' as PumpStatus,
+      curve: { ratedFlow: 260, ratedHead: 470, shutoffHead: 560, bestEfficiency: 0.74 }
+    },
+    {
+      id: 'P3', name: 'Pompe P3', power: 450, efficiency: 1.85, maxFlow: 4000, cosPhi: 0.84, status: 'inactive' as PumpStatus,
+      curve: { ratedFlow: 260, ratedHead: 470, shutoffHead: 560, bestEfficiency: 0.73 }
+    }
   ],
+  // Delivery main to Ouagadougou: head seen by the pumps
+  systemCurve: {
+    staticHead: 380, // m up to the bottom of the reservoir
+    levelHead: 12, // m of water when full
+    friction: 0.0003 // m per (m³/h)²
+  },
+  // Variable speed drive retrofit under study
+  vfdRetrofit: {
+    minSpeed: 0.8,
+    costPerPump: 45000000 // FCFA installed
+  },
   electrical: {
     voltage: 400, // V
     frequency: 50, // Hz
     cosPhi: 0.94,
-    cosPhiMin: 0.93
+    cosPhiMin: 0.93,
+    gridEmissionFactor: 0.65, // kg CO₂ per kWh of SONABEL grid (mostly thermal)
+    capacitorBank: {
+      steps: 6, // Switchable steps
+      kvarPerStep: 50 // kVAr
+    }
+  },
+  genset: {
+    power: 500, // kW - backup for one pump
+    fuelConsumption: 0.28, // L/kWh
+    fuelPrice: 675 // FCFA/L diesel
+  },
+  // Solar plant under study, not built yet
+  solarStudy: {
+    peakPower: 400, // kWc
+    performanceRatio: 0.8,
+    battery: {
+      capacity: 500, // kWh
+      efficiency: 0.9, // Round trip
+      minSoc: 20, // %
+      maxSoc: 95, // %
+      initialSoc: 50, // %
+      maxPower: 250 // kW
+    }
+  },
+  operating: {
+    minOnTime: 2, // h
+    minOffTime: 1, // h
+    maxStartsPerDay: 4, // per pump
+    startupEnergy: 15 // kWh per start
   }
 };
 
@@ -40,7 +101,14 @@ export const SONABEL_TARIFFS = {
   offPeakHours: [22, 23, 0, 1, 2, 3, 4, 5], // 22h-6h
   peakPrice: 160, // FCFA/kWh
   offPeakPrice: 65, // FCFA/kWh
-  fixedCharge: 12800 // FCFA/day
+  fixedCharge: 12800, // FCFA/day
+  reactiveEnergyPrice: 2, // FCFA/kVArh above the Cos φ 0.93 allowance
+  power: {
+    subscribedPower: 1000, // kW - puissance souscrite
+    powerCharge: 2900, // FCFA/kW/month
+    overrunPenalty: 8700 // FCFA per kW above the subscribed power
+  },
+  loadShedding: { start: 13, end: 16 } // Daily délestage announced for the hot season (h)
 };
 
 // Burkina Faso Holidays 2026
@@ -57,9 +125,66 @@ export const HOLIDAYS_2026 = [
 ];
 
 /**
- * Generate 24h tariff schedule
+ * Station reservoirs as seen by the pump scheduler
+ */
+export function buildStationReservoirs(): ReservoirParams[] {
+  const { reservoir } = ZIGA_STATION;
+  
+  return [{
+    id: `${ZIGA_STATION.id}-main`,
+    capacity: reservoir.capacity,
+    usableVolume: reservoir.usableVolume,
+    minLevel: reservoir.minLevel,
+    maxLevel: reservoir.maxLevel,
+    initialLevel: reservoir.currentLevel,
+    pumpIds: ZIGA_STATION.pumps.map(p => p.id)
+  }];
+}
+
+/**
+ * Pumps under maintenance are unavailable for the whole horizon
+ */
+export function buildMaintenanceWindows(horizonHours: number = 24): PumpAvailabilityWindow[] {
+  return ZIGA_STATION.pumps
+    .filter(p => p.status === 'maintenance')
+    .map(p => ({ pumpId: p.id, start: 0, end: horizonHours, reason: 'maintenance' }));
+}
+
+/**
+ * Announced SONABEL load-shedding periods over the horizon, one per day
+ */
+export function buildAnnouncedOutages(horizonHours: number = 24): GridOutage[] {
+  const { start, end } = SONABEL_TARIFFS.loadShedding;
+  const outages: GridOutage[] = [];
+
+  for (let day = 0; day * 24 + start < horizonHours; day++) {
+    outages.push({
+      start: day * 24 + start,
+      end: Math.min(horizonHours, day * 24 + end),
+      reason: 'Délestage programmé SONABEL'
+    });
+  }
+
+  return outages;
+}
+
+/**
+ * Clear-sky PV output of the studied solar plant (kW per step), sunrise 6h to sunset 18h
+ */
+export function generateSolarProfile(stepMinutes: number = 60, horizonHours: number = 24): number[] {
+  const { peakPower, performanceRatio } = ZIGA_STATION.solarStudy;
+  const hourly = Array.from({ length: 24 }, (_, hour) => {
+    const sunAngle = (Math.PI * (hour + 0.5 - 6)) / 12;
+    return sunAngle > 0 && sunAngle < Math.PI ? Math.round(peakPower * performanceRatio * Math.sin(sunAngle)) : 0;
+  });
+  
+  return resampleHourlyProfile(hourly, stepMinutes, horizonHours);
+}
+
+/**
+ * Generate tariff schedule (24h hourly by default)
  */
-export function generateTariffSchedule(): number[] {
+export function generateTariffSchedule(stepMinutes: number = 60, horizonHours: number = 24): number[] {
   const tariffs: number[] = [];
   
   for (let hour = 0; hour < 24; hour++) {
@@ -70,13 +195,14 @@ export function generateTariffSchedule(): number[] {
     }
   }
   
-  return tariffs;
+  return resampleHourlyProfile(tariffs, stepMinutes, horizonHours);
 }
 
 /**
  * Generate realistic 24h demand pattern
  */
-export function generateDemandPattern(date: Date = new Date()): number[] {
+export function generateDemandPattern(date: Date = new Date(), options?: RandomOptions): number[] {
+  const random = resolveRandom(options);
   const demand: number[] = [];
   const isWeekend = date.getDay() === 0 || date.getDay() === 6;
   const isHoliday = HOLIDAYS_2026.includes(date.toISOString().split('T')[0]);
@@ -111,7 +237,7 @@ export function generateDemandPattern(date: Date = new Date()): number[] {
     }
     
     // Add small random variation (±3%)
-    const variation = 0.97 + Math.random() * 0.06;
+    const variation = 0.97 + random() * 0.06;
     hourlyDemand *= variation;
     
     demand.push(Math.round(hourlyDemand));
@@ -120,10 +246,32 @@ export function generateDemandPattern(date: Date = new Date()): number[] {
   return demand;
 }
 
+/**
+ * Generate demand over a multi-day horizon at the given step length (m³/h per step)
+ */
+export function generateDemandProfile(
+  start: Date = new Date(),
+  stepMinutes: number = 60,
+  horizonHours: number = 24,
+  options?: RandomOptions
+): number[] {
+  const random = resolveRandom(options);
+  const days = Math.ceil(horizonHours / 24);
+  const profile: number[] = [];
+  
+  for (let i = 0; i < days; i++) {
+    const date = new Date(start);
+    date.setDate(date.getDate() + i);
+    profile.push(...resampleHourlyProfile(generateDemandPattern(date, { random }), stepMinutes, 24));
+  }
+  
+  return profile.slice(0, Math.round((horizonHours * 60) / stepMinutes));
+}
+
 /**
  * Generate 60 days of historical consumption data
  */
-export function generateHistoricalData(days: number = 60): {
+export function generateHistoricalData(days: number = 60, options?: RandomOptions): {
   date: string;
   hourly: number[];
   dailyTotal: number;
@@ -131,13 +279,14 @@ export function generateHistoricalData(days: number = 60): {
   cost: number;
 }[] {
   const data: ReturnType<typeof generateHistoricalData> = [];
+  const random = resolveRandom(options);
   const today = new Date();
   
   for (let i = days - 1; i >= 0; i--) {
     const date = new Date(today);
     date.setDate(date.getDate() - i);
     
-    const hourly = generateDemandPattern(date);
+    const hourly = generateDemandPattern(date, { random });
     const dailyTotal = hourly.reduce((a, b) => a + b, 0);
     
     // Simulate energy consumption with occasional anomalies
@@ -145,8 +294,8 @@ export function generateHistoricalData(days: number = 60): {
     const avgEfficiency = ZIGA_STATION.pumps.reduce((s, p) => s + p.efficiency, 0) / 3;
     
     // 3% chance of anomaly (×1.5-2.2 consumption)
-    const isAnomalyDay = Math.random() < 0.03;
-    const anomalyMultiplier = isAnomalyDay ? 1.5 + Math.random() * 0.7 : 1;
+    const isAnomalyDay = random() < 0.03;
+    const anomalyMultiplier = isAnomalyDay ? 1.5 + random() * 0.7 : 1;
     
     for (let h = 0; h < 24; h++) {
       kwhTotal += hourly[h] * avgEfficiency * anomalyMultiplier;
@@ -175,25 +324,30 @@ export function generateHistoricalData(days: number = 60): {
 /**
  * Generate pump data points for anomaly detection
  */
-export function generatePumpDataPoints(days: number = 7): PumpDataPoint[] {
+export function generatePumpDataPoints(days: number = 7, options?: RandomOptions): PumpDataPoint[] {
+  const random = resolveRandom(options);
   const points: PumpDataPoint[] = [];
-  const historical = generateHistoricalData(days);
+  const historical = generateHistoricalData(days, { random });
   
   for (const day of historical) {
     for (let hour = 0; hour < 24; hour++) {
       const timestamp = new Date(day.date).getTime() + hour * 3600000;
       
-      // Normal kWh/m³ around 1.8
-      const baseKwhM3 = 1.8;
-      const variation = 0.9 + Math.random() * 0.2;
+      // Normal kWh/m³ around 1.8, higher with more pumps on line (friction in the main)
+      const debit = day.hourly[hour];
+      const activePumps = Math.min(3, Math.max(1, Math.ceil(debit / 260)));
+      const baseKwhM3 = 1.6 + 0.15 * (activePumps - 1);
+      const variation = 0.9 + random() * 0.2;
       
       points.push({
         timestamp,
         kwhM3: baseKwhM3 * variation,
-        debit: day.hourly[hour],
-        reservoir: 60 + Math.random() * 30,
-        vibration: 2 + Math.random() * 3,
-        temperature: 35 + Math.random() * 10
+        debit,
+        reservoir: 60 + random() * 30,
+        activePumps,
+        vibration: 2 + random() * 3,
+        temperature: 35 + random() * 10,
+        pressure: 45 + random() * 3 // bar at the discharge, about the rated head
       });
     }
   }
@@ -204,9 +358,9 @@ export function generatePumpDataPoints(days: number = 7): PumpDataPoint[] {
 /**
  * Generate current KPIs
  */
-export function generateCurrentKPIs() {
+export function generateCurrentKPIs(options?: RandomOptions) {
   const today = new Date();
-  const demand = generateDemandPattern(today);
+  const demand = generateDemandPattern(today, options);
   const tariffs = generateTariffSchedule();
   
   // Calculate current consumption
@@ -238,37 +392,93 @@ export function generateCurrentKPIs() {
 /**
  * Generate optimized schedule using NSGA-II
  */
-export function generateOptimizedSchedule(): ReturnType<typeof optimizePumpSchedule> {
+export function generateOptimizedSchedule(options?: RandomOptions): ReturnType<typeof optimizePumpSchedule> {
   const today = new Date();
-  const demand = generateDemandPattern(today);
+  const demand = generateDemandPattern(today, options);
   const tariffs = generateTariffSchedule();
   
   const params: PumpScheduleParams = {
     demand,
     tariffs,
-    reservoirLevel: ZIGA_STATION.reservoir.currentLevel,
+    reservoirs: buildStationReservoirs(),
+    availability: buildMaintenanceWindows(),
+    powerTariff: SONABEL_TARIFFS.power,
+    capacitorBank: ZIGA_STATION.electrical.capacitorBank,
+    reactiveEnergyPrice: SONABEL_TARIFFS.reactiveEnergyPrice,
+    outages: buildAnnouncedOutages(),
+    genset: ZIGA_STATION.genset,
     pumps: ZIGA_STATION.pumps.map(p => ({
       id: p.id,
       power: p.power,
       efficiency: p.efficiency,
-      maxFlow: p.maxFlow
+      maxFlow: p.maxFlow,
+      cosPhi: p.cosPhi,
+      curve: p.curve
     })),
+    systemCurve: ZIGA_STATION.systemCurve,
     constraints: {
-      minReservoir: ZIGA_STATION.reservoir.minLevel,
-      maxReservoir: ZIGA_STATION.reservoir.maxLevel,
       minCosPhi: ZIGA_STATION.electrical.cosPhiMin,
-      maxActivePumps: 3
+      maxActivePumps: 3,
+      ...ZIGA_STATION.operating
     }
   };
   
-  return optimizePumpSchedule(params);
+  return optimizePumpSchedule(params, options);
+}
+
+/**
+ * Forecast conditions of a day: holidays, and seasonal temperature for Ouagadougou
+ */
+export function buildForecastContext(date: Date = new Date()): ForecastContext {
+  const rainy = date.getMonth() >= 5 && date.getMonth() <= 8; // June to September
+  return {
+    isHoliday: HOLIDAYS_2026.includes(date.toISOString().split('T')[0]),
+    temperature: rainy ? 29 : 36,
+    season: rainy ? 'rainy' : 'dry'
+  };
+}
+
+/**
+ * Simulated live reading while a plan is applied: measured levels drift from the planned
+ * trajectory and the last week of consumption is available
+ */
+export function generateLiveReading(
+  applied: AppliedPlan,
+  startTime: number,
+  timestamp: number = Date.now(),
+  options?: RandomOptions
+): LiveReading {
+  const random = resolveRandom(options);
+  const { plan, fromStep } = applied;
+  const step = Math.floor((timestamp - startTime) / (plan.stepMinutes * 60000)) - fromStep;
+  const index = Math.max(0, Math.min(plan.pumpPlanning.length, step));
+  
+  const reservoirLevels: Record<string, number> = {};
+  for (const [id, trajectory] of Object.entries(plan.reservoirTrajectories)) {
+    // ±4 points of drift from demand and metering errors
+    reservoirLevels[id] = Math.max(0, Math.min(100, trajectory[index] + (random() - 0.5) * 8));
+  }
+  
+  const pumpsOn: Record<string, boolean> = {};
+  ZIGA_STATION.pumps.forEach((p, i) => {
+    pumpsOn[p.id] = index > 0 ? plan.pumpPlanning[index - 1][i] === 1 : false;
+  });
+  
+  return {
+    timestamp,
+    reservoirLevels,
+    pumpsOn,
+    recentDemand: generateHistoricalData(7, { random }).flatMap(d => d.hourly),
+    batterySoc: plan.batterySoc[index]
+  };
 }
 
 /**
  * Generate AI recommendation
  */
-export function generateRecommendation() {
-  const schedule = generateOptimizedSchedule();
+export function generateRecommendation(options?: RandomOptions) {
+  const random = resolveRandom(options);
+  const schedule = generateOptimizedSchedule({ random });
   const hour = new Date().getHours();
   
   // Find next optimization opportunity
@@ -299,7 +509,7 @@ export function generateRecommendation() {
     explanation: [
       `Tarif heures pleines SONABEL : ${SONABEL_TARIFFS.peakPrice} FCFA/kWh`,
       `Réservoir suffisant (${ZIGA_STATION.reservoir.currentLevel}% > ${ZIGA_STATION.reservoir.minLevel}% mini)`,
-      `Demande prévue : ${generateDemandPattern()[nextActionHour]} m³/h`,
+      `Demande prévue : ${generateDemandPattern(new Date(), { random })[nextActionHour]} m³/h`,
       `Économie estimée : ${savings.toLocaleString()} FCFA`
     ],
     estimatedSavings: savings,
@@ -311,9 +521,10 @@ export function generateRecommendation() {
 /**
  * Generate active anomalies
  */
-export function generateActiveAnomalies() {
-  const pumpData = generatePumpDataPoints(3);
-  const results = detectAnomalies(pumpData);
+export function generateActiveAnomalies(options?: RandomOptions) {
+  const random = resolveRandom(options);
+  const pumpData = generatePumpDataPoints(3, { random });
+  const results = detectAnomalies(pumpData, { random });
   
   // Get last few anomalies
   const anomalies = results
@@ -321,20 +532,20 @@ export function generateActiveAnomalies() {
     .slice(-3)
     .map((r, idx) => ({
       id: `anomaly-${Date.now()}-${idx}`,
-      pump: ['P1', 'P2', 'P3'][Math.floor(Math.random() * 3)],
-      severity: r.score > 0.3 ? 'urgent' as const : r.score > 0.2 ? 'medium' as const : 'low' as const,
+      pump: ['P1', 'P2', 'P3'][Math.floor(random() * 3)],
+      severity: r.confidence > 0.5 ? 'urgent' as const : r.confidence > 0.3 ? 'medium' as const : 'low' as const,
       type: r.probableCause.includes('Fuite') ? 'Fuite détectée' : 
             r.probableCause.includes('Surconsommation') ? 'Surconsommation' : 'Dérive performance',
-      kwhM3: 1.8 + r.score * 2,
+      kwhM3: 1.8 + r.confidence * 2,
       baseline: 1.8,
-      costImpact: Math.round(r.score * 50000),
+      costImpact: Math.round(r.confidence * 50000),
       detectedAt: r.timestamp,
       resolved: false,
       rootCauses: [
         { cause: r.probableCause, probability: Math.round(r.confidence * 100) },
         { cause: 'Usure normale', probability: Math.round((1 - r.confidence) * 50) }
       ],
-      citizenReports: Math.floor(Math.random() * 3),
+      citizenReports: Math.floor(random() * 3),
       stationId: ZIGA_STATION.id
     }));
   
@@ -344,7 +555,8 @@ export function generateActiveAnomalies() {
 /**
  * Generate action history
  */
-export function generateActionHistory(count: number = 10) {
+export function generateActionHistory(count: number = 10, options?: RandomOptions) {
+  const random = resolveRandom(options);
   const actions = [
     { action: 'Arrêt P3', result: '-8,900 FCFA' },
     { action: 'Démarrage P1', result: '-5,200 FCFA' },
@@ -360,7 +572,7 @@ export function generateActionHistory(count: number = 10) {
     const date = new Date(now);
     date.setHours(date.getHours() - i * 6);
     
-    const actionItem = actions[Math.floor(Math.random() * actions.length)];
+    const actionItem = actions[Math.floor(random() * actions.length)];
     
     history.push({
       id: `action-${Date.now()}-${i}`,
@@ -381,20 +593,21 @@ export function generateActionHistory(count: number = 10) {
 /**
  * Export all station data
  */
-export function exportStationData() {
+export function exportStationData(options?: RandomOptions) {
+  const random = resolveRandom(options);
   return {
     station: ZIGA_STATION,
     tariffs: SONABEL_TARIFFS,
     holidays: HOLIDAYS_2026,
-    historicalData: generateHistoricalData(30),
-    currentKPIs: generateCurrentKPIs(),
-    optimizedSchedule: generateOptimizedSchedule(),
+    historicalData: generateHistoricalData(30, { random }),
+    currentKPIs: generateCurrentKPIs({ random }),
+    optimizedSchedule: generateOptimizedSchedule({ random }),
     demandPrediction: predictDemand({
-      historical: generateHistoricalData(7).flatMap(d => d.hourly),
+      historical: generateHistoricalData(7, { random }).flatMap(d => d.hourly),
       dayOfWeek: new Date().getDay(),
       isHoliday: false,
       temperature: 38,
       season: 'dry'
-    })
+    }, { random })
   };
 }
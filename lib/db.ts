@@ -1,11 +1,12 @@
 // ONEA-OPT IndexedDB Database
 // Using idb library for Promise-based API
 
-import { openDB, DBSchema, IDBPDatabase } from 'idb';
+import { openDB, type DBSchema, type IDBPDatabase } from 'idb';
+import type { IsolationForestModel } from './algorithms/isolation-forest';
 
 // Database version
 const DB_NAME = 'onea-opt-v1';
-const DB_VERSION = 1;
+const DB_VERSION = 2; // 2: anomalyModels
 
 // Database schema interface
 interface ONEAOptDB extends DBSchema {
@@ -23,6 +24,7 @@ interface ONEAOptDB extends DBSchema {
       rejected?: boolean;
       rejectReason?: string;
       stationId: string;
+      seed?: number; // Seed of the optimization run behind it, to reproduce it
     };
     indexes: { 'by-timestamp': number; 'by-station': string; 'by-applied': number };
   };
@@ -71,6 +73,8 @@ interface ONEAOptDB extends DBSchema {
       date: string;
       stationId: string;
       planning24h: { hour: number; pumpsActive: number; isOffPeak: boolean; cost: number }[];
+      pumpPlanning?: number[][]; // [step][pumpIndex] = 1 when the pump runs
+      stepMinutes?: number; // Time step of pumpPlanning (60 when absent)
       totalCost: number;
       optimizedCost: number;
       savings: number;
@@ -79,6 +83,18 @@ interface ONEAOptDB extends DBSchema {
     indexes: { 'by-date': string; 'by-station': string };
   };
   
+  anomalyModels: {
+    key: string; // `${stationId}-${pumpId}`
+    value: {
+      id: string;
+      stationId: string;
+      pumpId: string;
+      model: IsolationForestModel;
+      trainedAt: number;
+    };
+    indexes: { 'by-station': string };
+  };
+  
   syncQueue: {
     key: string;
     value: {
@@ -106,6 +122,8 @@ interface ONEAOptDB extends DBSchema {
   };
 }
 
+export type RecommendationRecord = ONEAOptDB['recommendations']['value'];
+
 // Database instance
 let db: IDBPDatabase<ONEAOptDB> | null = null;
 
@@ -114,7 +132,7 @@ export async function initDB(): Promise<IDBPDatabase<ONEAOptDB>> {
   if (db) return db;
   
   db = await openDB<ONEAOptDB>(DB_NAME, DB_VERSION, {
-    upgrade(database, oldVersion, newVersion, transaction) {
+    upgrade(database, oldVersion, newVersion) {
       console.log(`[DB] Upgrading from ${oldVersion} to ${newVersion}`);
       
       // Recommendations store
@@ -148,6 +166,12 @@ export async function initDB(): Promise<IDBPDatabase<ONEAOptDB>> {
         scheduleStore.createIndex('by-station', 'stationId');
       }
       
+      // Trained anomaly detection forests, one per station and pump
+      if (!database.objectStoreNames.contains('anomalyModels')) {
+        const modelStore = database.createObjectStore('anomalyModels', { keyPath: 'id' });
+        modelStore.createIndex('by-station', 'stationId');
+      }
+      
       // Sync queue store
       if (!database.objectStoreNames.contains('syncQueue')) {
         const syncStore = database.createObjectStore('syncQueue', { keyPath: 'id' });
@@ -335,11 +359,22 @@ export async function getPumpSchedule(date: string, stationId: string): Promise<
   return all.find(s => s.stationId === stationId);
 }
 
+// Anomaly detection models
+export async function saveAnomalyModel(record: ONEAOptDB['anomalyModels']['value']): Promise<void> {
+  const database = await getDB();
+  await database.put('anomalyModels', record);
+}
+
+export async function getAnomalyModel(stationId: string, pumpId: string): Promise<ONEAOptDB['anomalyModels']['value'] | undefined> {
+  const database = await getDB();
+  return database.get('anomalyModels', `${stationId}-${pumpId}`);
+}
+
 // Clear all data (for logout/reset)
 export async function clearAllData(): Promise<void> {
   const database = await getDB();
   
-  const stores = ['recommendations', 'anomalies', 'historicalActions', 'pumpSchedules', 'syncQueue'] as const;
+  const stores = ['recommendations', 'anomalies', 'anomalyModels', 'historicalActions', 'pumpSchedules', 'syncQueue'] as const;
   
   for (const store of stores) {
     await database.clear(store);
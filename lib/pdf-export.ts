@@ -8,6 +8,16 @@ import autoTable from 'jspdf-autotable';
 import { exportAlgorithmConfig as exportNSGA2Config } from './algorithms/nsga2';
 import { exportIsolationForestConfig } from './algorithms/isolation-forest';
 import { exportDemandPredictorConfig } from './algorithms/demand-predictor';
+import { exportDpSchedulerConfig } from './algorithms/dp-scheduler';
+import { exportRollingHorizonConfig } from './algorithms/rolling-horizon';
+import { exportPumpCurvesConfig } from './algorithms/pump-curves';
+import { exportDiagnosticsConfig } from './algorithms/diagnostics';
+import {
+  exportSensitivityConfig,
+  SENSITIVITY_LABELS,
+  type SensitivityAnalysis
+} from './algorithms/sensitivity';
+import { formatStepTime } from './algorithms/schedule-model';
 
 export interface PDFReportData {
   stationName: string;
@@ -16,13 +26,20 @@ export interface PDFReportData {
   optimizedCost: number;
   savings: number;
   savingsPercent: number;
-  planning24h: number[];
+  planning24h: number[]; // One value per time step
   demand24h: number[];
   tariffs24h: number[];
+  stepMinutes?: number; // Time step of the planning arrays (60 min by default)
+  reservoirLevels?: number[]; // Combined reservoir level (%) at each step boundary
   cosPhi: number;
-  penaltyAvoided: number;
+  currentCosPhi?: number; // Power factor of the reference schedule
+  penaltyAvoided: number; // FCFA of reactive energy penalty saved vs the reference schedule
   co2Saved: number;
-  paretoFront?: { cost: number; stability: number }[];
+  paretoFront?: { cost: number; stability: number; switches: number }[]; // Non-dominated solutions of the run, sorted by cost
+  selectedParetoIndex?: number; // Point of the front exported in this report (0 = cheapest)
+  sensitivity?: SensitivityAnalysis; // Re-optimized parameter variations around the exported schedule
+  infeasible?: boolean; // The schedule breaks constraints that no solution could meet
+  seed?: number; // Random seed of the optimization run, to reproduce it
 }
 
 // Generate optimization report PDF
@@ -46,6 +63,24 @@ export async function generateOptimizationReport(
   doc.setFontSize(12);
   doc.text(`Station: ${data.stationName}`, 20, 55);
   doc.text(`Date: ${data.date}`, 20, 62);
+  if (data.seed !== undefined) {
+    doc.setFontSize(9);
+    doc.setTextColor(100, 100, 100);
+    doc.text(`Graine aléatoire NSGA-II: ${data.seed}`, 120, 62);
+    doc.setFontSize(12);
+    doc.setTextColor(0, 0, 0);
+  }
+  if (data.paretoFront?.length) {
+    doc.setFontSize(9);
+    doc.setTextColor(100, 100, 100);
+    doc.text(
+      `Compromis retenu: solution ${(data.selectedParetoIndex ?? 0) + 1}/${data.paretoFront.length} du front de Pareto`,
+      120,
+      55
+    );
+    doc.setFontSize(12);
+    doc.setTextColor(0, 0, 0);
+  }
 
   // Summary box
   doc.setFillColor(240, 249, 244);
@@ -62,6 +97,12 @@ export async function generateOptimizationReport(
   doc.setTextColor(100, 100, 100);
   doc.text(`(${data.savingsPercent}% de réduction)`, 25, 115);
 
+  if (data.infeasible) {
+    doc.setFontSize(10);
+    doc.setTextColor(220, 38, 38);
+    doc.text('Planning non réalisable : contraintes non respectées, ne pas appliquer tel quel', 25, 125);
+  }
+
   // Cost comparison table
   autoTable(doc, {
     startY: 130,
@@ -69,7 +110,7 @@ export async function generateOptimizationReport(
     body: [
       ['Coût journalier', `${data.currentCost.toLocaleString('fr-FR')} FCFA`, `${data.optimizedCost.toLocaleString('fr-FR')} FCFA`, `${data.savings.toLocaleString('fr-FR')} FCFA`],
       ['Coût annuel', `${(data.currentCost * 365).toLocaleString('fr-FR')} FCFA`, `${(data.optimizedCost * 365).toLocaleString('fr-FR')} FCFA`, `${(data.savings * 365).toLocaleString('fr-FR')} FCFA`],
-      ['Facteur de puissance (Cos φ)', '0.89', data.cosPhi.toFixed(2), `${data.penaltyAvoided.toLocaleString('fr-FR')} FCFA/j`],
+      ['Facteur de puissance (Cos φ)', (data.currentCosPhi ?? 0.89).toFixed(2), data.cosPhi.toFixed(2), `${data.penaltyAvoided.toLocaleString('fr-FR')} FCFA/j`],
       ['Émissions CO₂', '-', '-', `${data.co2Saved} kg/jour`]
     ],
     theme: 'grid',
@@ -93,17 +134,18 @@ export async function generateOptimizationReport(
   });
 
   // Planning 24h table
-  const planningBody = data.planning24h.map((pumps, hour) => [
-    `${hour.toString().padStart(2, '0')}h00`,
-    data.demand24h[hour]?.toLocaleString() || '-',
+  const planningBody = data.planning24h.map((pumps, step) => [
+    formatStepTime(step, data.stepMinutes),
+    data.demand24h[step]?.toLocaleString() || '-',
     pumps.toString(),
-    `${data.tariffs24h[hour]} FCFA/kWh`,
+    `${data.tariffs24h[step]} FCFA/kWh`,
+    data.reservoirLevels?.[step + 1] !== undefined ? `${data.reservoirLevels[step + 1].toFixed(1)} %` : '-',
     pumps > 0 ? 'Actif' : 'Arrêt'
   ]);
 
   autoTable(doc, {
     startY: (doc as any).lastAutoTable.finalY + 15,
-    head: [['Heure', 'Demande (m³)', 'Pompes Actives', 'Tarif', 'Statut']],
+    head: [['Heure', 'Demande (m³/h)', 'Pompes Actives', 'Tarif', 'Réservoir', 'Statut']],
     body: planningBody,
     theme: 'grid',
     headStyles: {
@@ -122,10 +164,65 @@ export async function generateOptimizationReport(
       1: { cellWidth: 30, halign: 'right' },   // Demande
       2: { cellWidth: 30, halign: 'center' },  // Pompes Actives
       3: { cellWidth: 35, halign: 'right' },   // Tarif
-      4: { cellWidth: 25, halign: 'center' }   // Statut
+      4: { cellWidth: 25, halign: 'right' },   // Réservoir (fin de pas)
+      5: { cellWidth: 25, halign: 'center' }   // Statut
     }
   });
 
+  // Sensitivity analysis: tornado table, then every parameter moved at once
+  if (data.sensitivity) {
+    const { tornado, joint, baseCost } = data.sensitivity;
+    const formatVariation = (v: number) => `${v > 0 ? '+' : ''}${Math.round(v * 100)}%`;
+    const formatCost = (cost: number) =>
+      `${cost.toLocaleString('fr-FR')} FCFA (${cost >= baseCost ? '+' : ''}${(cost - baseCost).toLocaleString('fr-FR')})`;
+
+    let startY = (doc as jsPDF & { lastAutoTable: { finalY: number } }).lastAutoTable.finalY + 15;
+    if (startY > 230) {
+      doc.addPage();
+      startY = 20;
+    }
+    doc.setFontSize(12);
+    doc.setTextColor(0, 0, 0);
+    doc.text('Analyse de sensibilité (planning ré-optimisé pour chaque cas)', 15, startY);
+
+    autoTable(doc, {
+      startY: startY + 5,
+      head: [['Paramètre', 'Variation basse', 'Variation haute', 'Écart']],
+      body: [
+        ...tornado.map(bar => [
+          SENSITIVITY_LABELS[bar.parameter],
+          `${formatVariation(bar.low.variation)} : ${formatCost(bar.low.cost)}`,
+          `${formatVariation(bar.high.variation)} : ${formatCost(bar.high.cost)}`,
+          `${bar.swing.toLocaleString('fr-FR')} FCFA`
+        ]),
+        ...joint.map(c => [
+          c.variation > 0 ? 'Tous défavorables' : 'Tous favorables',
+          formatVariation(Math.abs(c.variation)),
+          formatCost(c.cost),
+          `Économie ${c.savings.toLocaleString('fr-FR')} FCFA`
+        ])
+      ],
+      theme: 'grid',
+      headStyles: {
+        fillColor: [0, 102, 204],
+        textColor: 255,
+        fontSize: 8,
+        fontStyle: 'bold'
+      },
+      alternateRowStyles: { fillColor: [248, 250, 252] },
+      styles: {
+        fontSize: 7,
+        cellPadding: 1.5
+      },
+      columnStyles: {
+        0: { cellWidth: 40 },  // Paramètre
+        1: { cellWidth: 55 },  // Variation basse
+        2: { cellWidth: 55 },  // Variation haute
+        3: { cellWidth: 35 }   // Écart
+      }
+    });
+  }
+
   // Footer
   const pageCount = doc.getNumberOfPages();
   for (let i = 1; i <= pageCount; i++) {
@@ -425,21 +522,26 @@ export async function exportDGReport(data: DGReportData): Promise<void> {
   downloadPDF(blob, filename);
 }
 
-// Export algorithms as JSON files
-export async function exportAlgorithmsJSON(): Promise<Record<string, any>> {
+// Export algorithms as JSON files (with the seed of the last optimization run, if any)
+export async function exportAlgorithmsJSON(seed?: number): Promise<Record<string, any>> {
   return {
-    'nsga2.json': exportNSGA2Config(),
+    'nsga2.json': seed !== undefined ? { ...exportNSGA2Config(), seed } : exportNSGA2Config(),
     'isolation-forest.json': exportIsolationForestConfig(),
-    'demand-predictor.json': exportDemandPredictorConfig()
+    'demand-predictor.json': exportDemandPredictorConfig(),
+    'dp-scheduler.json': exportDpSchedulerConfig(),
+    'rolling-horizon.json': exportRollingHorizonConfig(),
+    'pump-curves.json': exportPumpCurvesConfig(),
+    'sensitivity.json': exportSensitivityConfig(),
+    'diagnostics.json': exportDiagnosticsConfig()
   };
 }
 
 // Create ZIP with algorithm files
-export async function createAlgorithmsZip(): Promise<Blob> {
+export async function createAlgorithmsZip(seed?: number): Promise<Blob> {
   const JSZip = (await import('jszip')).default;
   const zip = new JSZip();
 
-  const algorithms = await exportAlgorithmsJSON();
+  const algorithms = await exportAlgorithmsJSON(seed);
 
   // Add each algorithm as JSON file
   for (const [filename, content] of Object.entries(algorithms)) {
@@ -462,6 +564,24 @@ Algorithme Isolation Forest pour la détection non-supervisée d'anomalies et fu
 ### demand-predictor.json
 Algorithme LSTM simplifié pour la prédiction de la demande en eau potable.
 
+### dp-scheduler.json
+Solveur de référence par programmation dynamique sur un problème relâché (durées minimales, démarrages par jour et Cos φ ignorés), pour situer le coût du NSGA-II.
+
+### rolling-horizon.json
+Pilotage glissant (commande prédictive) : ré-optimisation horaire du reste de la journée à partir des mesures.
+
+### pump-curves.json
+Hydraulique des pompes : courbes H-Q et de rendement, lois de similitude pour les variateurs de vitesse, courbe du réseau.
+
+### sensitivity.json
+Analyse de sensibilité : demande, tarif, rendement des pompes, niveau initial et seuil Cos φ variés un à un puis ensemble, planning ré-optimisé pour chaque cas.
+
+### diagnostics.json
+Diagnostic d'infaisabilité : contraintes non respectées, heures et dépassements, assouplissements qui rendraient le problème réalisable.
+${seed !== undefined ? `
+## Reproductibilité
+Graine aléatoire de l'optimisation : ${seed}. Les mêmes données d'entrée avec cette graine redonnent le même planning.
+` : ''}
 ## Licence
 MIT License - ONEA Burkina Faso
 `;
@@ -471,8 +591,8 @@ MIT License - ONEA Burkina Faso
 }
 
 // Download algorithms ZIP
-export async function downloadAlgorithmsZip(): Promise<void> {
-  const blob = await createAlgorithmsZip();
+export async function downloadAlgorithmsZip(seed?: number): Promise<void> {
+  const blob = await createAlgorithmsZip(seed);
   const url = URL.createObjectURL(blob);
   const link = document.createElement('a');
   link.href = url;
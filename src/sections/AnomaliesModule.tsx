@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useMemo, useState } from 'react';
 import {
   AlertCircle,
   DollarSign,
@@ -28,6 +28,16 @@ import {
   Legend,
   Cell
 } from 'recharts';
+import {
+  getFeatureImportance,
+  loadAnomalyModel,
+  scoreAnomaly,
+  type AnomalyResult,
+  type IsolationForestModel,
+  type PumpDataPoint
+} from '../../lib/algorithms/isolation-forest';
+import { createRng } from '../../lib/algorithms/rng';
+import { ZIGA_STATION, generatePumpDataPoints } from '../../lib/data/ziga-mock-data';
 
 // Mission TDR Coverage:
 // Mission 7: Surveillance performance électrique
@@ -40,13 +50,20 @@ const anomalyScoreData = Array.from({ length: 7 }, (_, i) => ({
   P3: 0.06 + Math.random() * 0.09,
 }));
 
-const featureImportance = [
-  { feature: 'kWh/m³', importance: 85 },
-  { feature: 'Vibration', importance: 62 },
-  { feature: 'Température', importance: 45 },
-  { feature: 'Débit', importance: 38 },
-  { feature: 'Pression', importance: 28 },
-];
+// Station-wide forest (readings are not split per pump), trained on a week of simulated readings.
+// Readings and trees are drawn from a fixed seed so the model is reproducible.
+const ANOMALY_MODEL_PUMP_ID = 'station';
+const ANOMALY_MODEL_SEED = 7;
+
+function loadStationAnomalyModel(): Promise<IsolationForestModel | null> {
+  const random = createRng(ANOMALY_MODEL_SEED);
+  return loadAnomalyModel(
+    generatePumpDataPoints(7, { random }),
+    ZIGA_STATION.id,
+    ANOMALY_MODEL_PUMP_ID,
+    { random }
+  );
+}
 
 const historicalAnomalies = [
   { id: '1', date: '28/01', type: 'Fuite', pump: 'P3', duration: '4h', cost: '18 500 FCFA', status: 'Réparé' },
@@ -67,6 +84,8 @@ interface Anomaly {
   rootCauses: { cause: string; probability: number }[];
   citizenReports: number;
   correlation: boolean;
+  detectedAt: string; // Time of the flagged reading
+  sensors: Omit<PumpDataPoint, 'timestamp' | 'kwhM3'>; // Other sensors at that time
 }
 
 const activeAnomalies: Anomaly[] = [
@@ -86,6 +105,8 @@ const activeAnomalies: Anomaly[] = [
     ],
     citizenReports: 2,
     correlation: true,
+    detectedAt: '2026-02-04T08:45:00',
+    sensors: { debit: 420, reservoir: 52, activePumps: 2, vibration: 3.8, temperature: 41, pressure: 44.2 },
   },
   {
     id: '2',
@@ -102,6 +123,8 @@ const activeAnomalies: Anomaly[] = [
     ],
     citizenReports: 0,
     correlation: false,
+    detectedAt: '2026-02-04T10:15:00',
+    sensors: { debit: 180, reservoir: 74, activePumps: 1, vibration: 5.9, temperature: 44, pressure: 46.8 },
   },
   {
     id: '3',
@@ -117,9 +140,40 @@ const activeAnomalies: Anomaly[] = [
     ],
     citizenReports: 1,
     correlation: false,
+    // No temperature probe on P3
+    detectedAt: '2026-02-04T09:30:00',
+    sensors: { debit: 260, reservoir: 70, activePumps: 1, vibration: 3.4, pressure: 49.5 },
   },
 ];
 
+// Flagged reading, explained by the forest
+const alertReading = (anomaly: Anomaly): PumpDataPoint => ({
+  timestamp: new Date(anomaly.detectedAt).getTime(),
+  kwhM3: anomaly.kwhM3,
+  ...anomaly.sensors,
+});
+
+// Waterfall from the average score to the reading's score: an invisible offset bar, then the step
+const buildWaterfall = (result: AnomalyResult) => {
+  let running = result.baseScore;
+  const steps = result.attributions.map(a => {
+    const start = running;
+    running += a.contribution;
+    return {
+      name: a.label,
+      offset: Math.min(start, running),
+      step: Math.abs(a.contribution),
+      contribution: a.contribution,
+      detail: a.value === undefined ? 'capteur absent' : `${Math.round(a.value * 100) / 100} (z = ${(a.deviation ?? 0).toFixed(1)})`,
+    };
+  });
+  return [
+    { name: 'Score moyen', offset: 0, step: result.baseScore, contribution: result.baseScore, detail: '' },
+    ...steps,
+    { name: 'Score', offset: 0, step: result.score, contribution: result.score, detail: '' },
+  ];
+};
+
 // Severity colors for styling
 
 const getSeverityBadge = (severity: string) => {
@@ -133,6 +187,43 @@ const getSeverityBadge = (severity: string) => {
 export function AnomaliesModule() {
   const [expandedAnomaly, setExpandedAnomaly] = useState<string | null>('1');
   const [dismissedAnomalies, setDismissedAnomalies] = useState<string[]>([]);
+  const [anomalyModel, setAnomalyModel] = useState<IsolationForestModel | null>(null);
+
+  // Stored forest, retrained only when missing or stale
+  useEffect(() => {
+    let cancelled = false;
+    loadStationAnomalyModel()
+      .then((model) => {
+        if (!cancelled) setAnomalyModel(model);
+      })
+      .catch((error) => console.error('[Anomalies] Échec du chargement du modèle', error));
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Importances read from the forest's trees
+  const featureImportance = useMemo(
+    () =>
+      anomalyModel
+        ? getFeatureImportance(anomalyModel).map(f => ({
+            feature: f.feature,
+            importance: Math.round(f.importance * 100),
+          }))
+        : [],
+    [anomalyModel]
+  );
+
+  // Alert explanations, once the forest is loaded
+  const alertWaterfalls = useMemo<Record<string, ReturnType<typeof buildWaterfall>>>(
+    () =>
+      anomalyModel
+        ? Object.fromEntries(
+            activeAnomalies.map(a => [a.id, buildWaterfall(scoreAnomaly(alertReading(a), anomalyModel))])
+          )
+        : {},
+    [anomalyModel]
+  );
 
   const handleDismiss = (id: string) => {
     setDismissedAnomalies([...dismissedAnomalies, id]);
@@ -293,6 +384,42 @@ export function AnomaliesModule() {
                       </div>
                     </div>
 
+                    {/* Feature Attributions */}
+                    {anomalyModel && (
+                      <div className="mb-4">
+                        <h4 className="text-sm font-medium text-gray-700 mb-2">Contributions au score d'anomalie</h4>
+                        <div className="h-56">
+                          <ResponsiveContainer width="100%" height="100%">
+                            <BarChart data={alertWaterfalls[anomaly.id]} layout="vertical" margin={{ left: 40 }}>
+                              <CartesianGrid strokeDasharray="3 3" horizontal={false} />
+                              <XAxis type="number" domain={[0, 'auto']} tickFormatter={(v: number) => v.toFixed(2)} />
+                              <YAxis dataKey="name" type="category" width={110} />
+                              <Tooltip
+                                formatter={(_v: number, _name: string, item: { payload?: { contribution: number; detail: string } }) => {
+                                  const entry = item.payload;
+                                  if (!entry?.detail) return [entry?.contribution.toFixed(3), 'Score'];
+                                  return [`${entry.contribution >= 0 ? '+' : ''}${entry.contribution.toFixed(3)} · ${entry.detail}`, 'Contribution'];
+                                }}
+                              />
+                              <ReferenceLine x={anomalyModel.threshold} stroke="#EF4444" strokeDasharray="5 5" label={{ value: 'Seuil', position: 'top', fontSize: 10 }} />
+                              <Bar dataKey="offset" stackId="waterfall" fill="transparent" tooltipType="none" />
+                              <Bar dataKey="step" stackId="waterfall">
+                                {alertWaterfalls[anomaly.id].map((entry, index, all) => (
+                                  <Cell
+                                    key={`step-${index}`}
+                                    fill={index === 0 || index === all.length - 1 ? '#0066CC' : entry.contribution > 0 ? '#EF4444' : '#20AF24'}
+                                  />
+                                ))}
+                              </Bar>
+                            </BarChart>
+                          </ResponsiveContainer>
+                        </div>
+                        <p className="text-xs text-gray-500 mt-1">
+                          Rouge: éloigne la mesure du fonctionnement normal · Vert: la rapproche
+                        </p>
+                      </div>
+                    )}
+
                     {/* Citizen Reports */}
                     {anomaly.citizenReports > 0 && (
                       <div className="bg-blue-50 rounded-lg p-3 mb-4">
@@ -370,8 +497,8 @@ export function AnomaliesModule() {
               <ResponsiveContainer width="100%" height="100%">
                 <BarChart data={featureImportance} layout="vertical" margin={{ left: 80 }}>
                   <CartesianGrid strokeDasharray="3 3" horizontal={false} />
-                  <XAxis type="number" domain={[0, 100]} tickFormatter={(v) => `${v}%`} />
-                  <YAxis dataKey="feature" type="category" width={70} />
+                  <XAxis type="number" domain={[0, 'auto']} tickFormatter={(v) => `${v}%`} />
+                  <YAxis dataKey="feature" type="category" width={110} />
                   <Tooltip formatter={(v: number) => `${v}%`} />
                   <Bar dataKey="importance" fill="#20AF24" radius={[0, 4, 4, 0]}>
                     {featureImportance.map((_entry, index) => (
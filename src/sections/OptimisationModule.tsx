@@ -1,4 +1,4 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import {
   Download,
   ChevronDown,
@@ -6,12 +6,18 @@ import {
   Info,
   Leaf,
   Play,
-  AlertCircle
+  AlertCircle,
+  Plus,
+  X,
+  Lock,
+  History,
+  RefreshCw
 } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Badge } from '@/components/ui/badge';
 import { Progress } from '@/components/ui/progress';
+import { Input } from '@/components/ui/input';
 import {
   XAxis,
   YAxis,
@@ -26,20 +32,68 @@ import {
   Cell,
   LineChart,
   Line,
-  Legend
+  BarChart,
+  Bar,
+  Legend,
+  ReferenceLine
 } from 'recharts';
 import {
   ZIGA_STATION,
   SONABEL_TARIFFS,
-  generateDemandPattern,
-  generateTariffSchedule
+  generateDemandProfile,
+  generateTariffSchedule,
+  buildStationReservoirs,
+  buildMaintenanceWindows,
+  buildAnnouncedOutages,
+  generateSolarProfile,
+  buildForecastContext,
+  generateLiveReading
 } from '../../lib/data/ziga-mock-data';
 import {
-  optimizePumpSchedule,
-  generateParetoFront,
-  type PumpScheduleParams
+  type PumpScheduleParams,
+  type PumpSwitchingReport,
+  type PumpAvailabilityWindow,
+  type PumpLock,
+  type GridOutage,
+  type Nsga2Result,
+  type OptimizedSchedule
 } from '../../lib/algorithms/nsga2';
-import { exportOptimizationReport } from '../../lib/pdf-export';
+import { solvePumpScheduleDP, scheduleGap } from '../../lib/algorithms/dp-scheduler';
+import { sampleDemandScenarios } from '../../lib/algorithms/demand-predictor';
+import { generateSeed } from '../../lib/algorithms/rng';
+import {
+  runRollingHorizonStep,
+  buildPlanRecommendation,
+  RECOMPUTE_INTERVAL_MINUTES,
+  type AppliedPlan
+} from '../../lib/algorithms/rolling-horizon';
+import {
+  diagnoseSchedule,
+  stepRanges,
+  type ScheduleConstraint,
+  type RelaxableParameter,
+  type ScheduleDiagnostics
+} from '../../lib/algorithms/diagnostics';
+import {
+  runSensitivityAnalysis,
+  SENSITIVITY_PARAMETERS,
+  SENSITIVITY_LABELS,
+  type SensitivityAnalysis
+} from '../../lib/algorithms/sensitivity';
+import {
+  runOptimizationInWorker,
+  type OptimizationRun
+} from '../../lib/algorithms/optimizer-client';
+import {
+  simulateSchedule,
+  planningFromPumpCounts,
+  buildAvailabilityMask,
+  buildOutageMask,
+  resamplePlanning,
+  formatStepTime
+} from '../../lib/algorithms/schedule-model';
+import { exportOptimizationReport, downloadAlgorithmsZip } from '../../lib/pdf-export';
+import { addRecommendation, getPumpSchedule, savePumpSchedule } from '../../lib/db';
 
 // Mission TDR Coverage:
 // Mission 2: Modélisation demande (via prédictions intégrées)
@@ -48,90 +102,139 @@ import { exportOptimizationReport } from '../../lib/pdf-export';
 // Mission 8: Réduction pénalités Cos φ
 // Mission 11: Prévision énergétique (courbes)
 
+// pumps[i] = état de ZIGA_STATION.pumps[i] (1 = en marche), un pas par heure
 const scheduleHeatmap = [
-  { hour: 0, P1: 1, P2: 1, P3: 1, offPeak: true },
-  { hour: 1, P1: 1, P2: 1, P3: 1, offPeak: true },
-  { hour: 2, P1: 1, P2: 1, P3: 1, offPeak: true },
-  { hour: 3, P1: 1, P2: 1, P3: 1, offPeak: true },
-  { hour: 4, P1: 1, P2: 1, P3: 1, offPeak: true },
-  { hour: 5, P1: 1, P2: 1, P3: 1, offPeak: true },
-  { hour: 6, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 7, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 8, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 9, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 10, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 11, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 12, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 13, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 14, P1: 1, P2: 0, P3: 0, offPeak: false },
-  { hour: 15, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 16, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 17, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 18, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 19, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 20, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 21, P1: 1, P2: 1, P3: 0, offPeak: false },
-  { hour: 22, P1: 1, P2: 1, P3: 1, offPeak: true },
-  { hour: 23, P1: 1, P2: 1, P3: 1, offPeak: true },
+  { step: 0, pumps: [1, 1, 1], offPeak: true },
+  { step: 1, pumps: [1, 1, 1], offPeak: true },
+  { step: 2, pumps: [1, 1, 1], offPeak: true },
+  { step: 3, pumps: [1, 1, 1], offPeak: true },
+  { step: 4, pumps: [1, 1, 1], offPeak: true },
+  { step: 5, pumps: [1, 1, 1], offPeak: true },
+  { step: 6, pumps: [1, 1, 0], offPeak: false },
+  { step: 7, pumps: [1, 1, 0], offPeak: false },
+  { step: 8, pumps: [1, 1, 0], offPeak: false },
+  { step: 9, pumps: [1, 1, 0], offPeak: false },
+  { step: 10, pumps: [1, 1, 0], offPeak: false },
+  { step: 11, pumps: [1, 1, 0], offPeak: false },
+  { step: 12, pumps: [1, 1, 0], offPeak: false },
+  { step: 13, pumps: [1, 1, 0], offPeak: false },
+  { step: 14, pumps: [1, 0, 0], offPeak: false },
+  { step: 15, pumps: [1, 1, 0], offPeak: false },
+  { step: 16, pumps: [1, 1, 0], offPeak: false },
+  { step: 17, pumps: [1, 1, 0], offPeak: false },
+  { step: 18, pumps: [1, 1, 0], offPeak: false },
+  { step: 19, pumps: [1, 1, 0], offPeak: false },
+  { step: 20, pumps: [1, 1, 0], offPeak: false },
+  { step: 21, pumps: [1, 1, 0], offPeak: false },
+  { step: 22, pumps: [1, 1, 1], offPeak: true },
+  { step: 23, pumps: [1, 1, 1], offPeak: true },
 ];
 
 const costBreakdown = [
   { name: 'Heures pleines', value: 179900, color: '#0066CC' },
   { name: 'Heures creuses', value: 64300, color: '#20AF24' },
-  { name: 'Prime fixe', value: 12800, color: '#94A3B8' }
+  { name: 'Prime fixe', value: 12800, color: '#94A3B8' },
+  { name: 'Prime de puissance', value: 96700, color: '#F59E0B' },
+  { name: 'Pénalité Cos φ', value: 0, color: '#EF4444' },
+  { name: 'Groupe électrogène', value: 0, color: '#EA580C' }
 ];
 
-const sensitivityData = [
-  { variation: -20, actuel: 238000, optimise: 206000 },
-  { variation: -15, actuel: 252000, optimise: 218000 },
-  { variation: -10, actuel: 267000, optimise: 231000 },
-  { variation: -5, actuel: 282000, optimise: 244000 },
-  { variation: 0, actuel: 297000, optimise: 257000 },
-  { variation: 5, actuel: 312000, optimise: 270000 },
-  { variation: 10, actuel: 327000, optimise: 283000 },
-  { variation: 15, actuel: 342000, optimise: 296000 },
-  { variation: 20, actuel: 357000, optimise: 309000 },
-];
+const CO2_PER_TREE_PER_YEAR = 25; // kg absorbed by a tree
+const CONSTRAINT_LABELS: Record<ScheduleConstraint, string> = {
+  minLevel: 'Niveau minimum',
+  maxLevel: 'Niveau maximum',
+  endLevel: 'Niveau de fin de journée',
+  cosPhi: 'Cos φ minimum',
+  runTime: 'Durées minimales de marche/arrêt',
+  starts: 'Démarrages par jour',
+  subscribedPower: 'Puissance souscrite',
+  genset: 'Puissance du groupe électrogène'
+};
+
+const RELAXATION_LABELS: Record<RelaxableParameter, string> = {
+  minLevel: 'Niveau minimum',
+  maxLevel: 'Niveau maximum',
+  targetEndLevel: 'Niveau cible de fin de journée',
+  minCosPhi: 'Seuil Cos φ',
+  minOnTime: 'Durée minimale de marche',
+  minOffTime: "Durée minimale d'arrêt",
+  maxStartsPerDay: 'Démarrages max par jour',
+  maxActivePumps: 'Pompes simultanées max',
+  subscribedPower: 'Puissance souscrite',
+  gensetPower: 'Puissance du groupe électrogène'
+};
+
+const SENSITIVITY_GENERATION_SHARE = 0.25; // Each case is warm-started from the plan, fewer generations suffice
+const SENSITIVITY_COLORS = ['#0066CC', '#F59E0B', '#20AF24', '#8B5CF6', '#EF4444'];
 
 function computeScheduleCost(
-  schedule: number[],
-  demand: number[],
-  tariffs: number[]
-): { totalCost: number; peakCost: number; offPeakCost: number } {
-  const avgEfficiency =
-    ZIGA_STATION.pumps.reduce((s, p) => s + p.efficiency, 0) / ZIGA_STATION.pumps.length;
+  pumpPlanning: number[][],
+  params: PumpScheduleParams,
+  capacitorPlanning?: number[],
+  speedPlanning?: number[][]
+): {
+  totalCost: number;
+  peakCost: number;
+  offPeakCost: number;
+  fixedCharge: number;
+  demandCharge: number;
+  peakPower: number;
+  reactivePenalty: number;
+  cosPhi: number;
+  gensetCost: number;
+  energy: number;
+  pumpHours: number;
+  offPeakShare: number;
+} {
+  const { stepCosts, demandCharge, peakPower, reactivePenalty, cosPhi, energy, pumpsActive } =
+    simulateSchedule(pumpPlanning, params, capacitorPlanning, speedPlanning);
+  const stepHours = (params.stepMinutes ?? 60) / 60;
+  const outages = buildOutageMask(params);
 
   let total = 0;
   let peakCost = 0;
   let offPeakCost = 0;
+  let gensetCost = 0;
+  let pumpHours = 0;
+  let offPeakPumpHours = 0;
 
-  for (let hour = 0; hour < 24; hour++) {
-    const pumpsActive = schedule[hour];
-    const hourlyDemand = demand[hour];
-    const baseTariff = tariffs[hour];
-
-    const productionCapacity = pumpsActive * ZIGA_STATION.pumps[0].maxFlow;
-    const actualProduction = Math.min(productionCapacity, hourlyDemand * 1.2);
+  stepCosts.forEach((stepCost, step) => {
+    total += stepCost;
+    pumpHours += pumpsActive[step] * stepHours;
 
-    const energyKWh = actualProduction * avgEfficiency;
-    const hourlyCost = energyKWh * baseTariff;
-
-    total += hourlyCost;
-
-    const isOffPeak = baseTariff === SONABEL_TARIFFS.offPeakPrice;
+    // Délestage : pompage au gazole, hors facture SONABEL
+    if (outages[step]) {
+      gensetCost += stepCost;
+      return;
+    }
+    const isOffPeak = params.tariffs[step] === SONABEL_TARIFFS.offPeakPrice;
     if (isOffPeak) {
-      offPeakCost += hourlyCost;
+      offPeakCost += stepCost;
+      offPeakPumpHours += pumpsActive[step] * stepHours;
     } else {
-      peakCost += hourlyCost;
+      peakCost += stepCost;
     }
-  }
+  });
 
-  total += SONABEL_TARIFFS.fixedCharge;
+  // Prime fixe journalière, comptée pour chaque jour de l'horizon
+  const fixedCharge = SONABEL_TARIFFS.fixedCharge * Math.ceil((params.horizonHours ?? 24) / 24);
+  total += fixedCharge;
+  // Prime de puissance souscrite, pénalité de dépassement et pénalité d'énergie réactive
+  total += demandCharge + reactivePenalty;
 
   return {
     totalCost: Math.round(total),
     peakCost: Math.round(peakCost),
-    offPeakCost: Math.round(offPeakCost)
+    offPeakCost: Math.round(offPeakCost),
+    fixedCharge,
+    demandCharge: Math.round(demandCharge),
+    peakPower,
+    reactivePenalty: Math.round(reactivePenalty),
+    cosPhi,
+    gensetCost: Math.round(gensetCost),
+    energy: Math.round(energy.reduce((sum, e) => sum + e, 0)),
+    pumpHours,
+    offPeakShare: pumpHours > 0 ? offPeakPumpHours / pumpHours : 0
   };
 }
 
@@ -144,123 +247,566 @@ export function OptimisationModule() {
   const [baseCost, setBaseCost] = useState<number | null>(null);
   const [optimizedCost, setOptimizedCost] = useState<number | null>(null);
   const [optimizedCosPhi, setOptimizedCosPhi] = useState<number | null>(null);
-  const [paretoPoints, setParetoPoints] = useState<{ cost: number; stability: number }[]>([]);
+  const [optimizedPeakPower, setOptimizedPeakPower] = useState<number | null>(null);
+  // Énergie et heures de marche cumulées (pompes × heures) des deux plannings
+  const [baseUsage, setBaseUsage] = useState<{ energy: number; pumpHours: number } | null>(null);
+  const [optimizedUsage, setOptimizedUsage] =
+    useState<{ energy: number; pumpHours: number; offPeakShare: number } | null>(null);
+  // Cos φ et pénalité d'énergie réactive : référence (sans condensateurs) et planning optimisé
+  const [basePowerFactor, setBasePowerFactor] =
+    useState<{ cosPhi: number; penalty: number } | null>(null);
+  const [optimizedPenalty, setOptimizedPenalty] = useState<number | null>(null);
+  const [capacitorPlanning, setCapacitorPlanning] = useState<number[]>([]);
+  // Front de Pareto du dernier calcul et solution choisie sur le graphique (0 = la moins chère)
+  const [paretoFront, setParetoFront] = useState<OptimizedSchedule[]>([]);
+  const [selectedParetoIndex, setSelectedParetoIndex] = useState(0);
+  const lastRun = useRef<{ params: PumpScheduleParams; uniformSchedule: number[][]; date: string } | null>(null);
 
   const [dynamicCostBreakdown, setDynamicCostBreakdown] = useState<typeof costBreakdown | null>(null);
   const [dynamicScheduleHeatmap, setDynamicScheduleHeatmap] =
     useState<typeof scheduleHeatmap | null>(null);
-  const [dynamicSensitivityData, setDynamicSensitivityData] =
-    useState<typeof sensitivityData | null>(null);
 
   const [demand24h, setDemand24h] = useState<number[]>([]);
   const [tariffs24h, setTariffs24h] = useState<number[]>([]);
   const [optimizedPlanning, setOptimizedPlanning] = useState<number[]>([]);
+  const [planningStepMinutes, setPlanningStepMinutes] = useState(60);
+  const [reservoirLevels, setReservoirLevels] = useState<number[]>([]);
+  // Niveau du réservoir sur la prévision et plage couverte par les scénarios de demande
+  const [levelEnvelope, setLevelEnvelope] =
+    useState<{ time: string; level: number; min: number; max: number }[]>([]);
+  const [scenarioCount, setScenarioCount] = useState(1);
+  const [switchingReports, setSwitchingReports] = useState<PumpSwitchingReport[]>([]);
+  const [availabilityMask, setAvailabilityMask] = useState<boolean[][]>([]);
+  const [outageMask, setOutageMask] = useState<boolean[]>([]);
+  const [gensetSummary, setGensetSummary] =
+    useState<{ hours: number; litres: number; cost: number } | null>(null);
+  // Centrale solaire à l'étude : énergie réseau évitée par jour (kWh), null sans calcul
+  const [solarEnabled, setSolarEnabled] = useState(true);
+  const [avoidedGridKWh, setAvoidedGridKWh] = useState<number | null>(null);
+  // Variateurs de vitesse (rénovation à l'étude) : vitesses du planning et gain vs démarrage direct
+  const [vfdEnabled, setVfdEnabled] = useState(false);
+  const [speedPlanning, setSpeedPlanning] = useState<number[][]>([]);
+  const [vfdSummary, setVfdSummary] = useState<{
+    averageSpeed: number;
+    specificEnergy: number;
+    directOnLineCost: number;
+    dailyGain: number;
+  } | null>(null);
+
+  // Indisponibilités saisies par le technicien (heures depuis le début de l'horizon)
+  const [availabilityWindows, setAvailabilityWindows] = useState<PumpAvailabilityWindow[]>([]);
+  const [newWindow, setNewWindow] = useState({ pumpId: ZIGA_STATION.pumps[0].id, start: 8, end: 14 });
+
+  // Délestages annoncés par SONABEL (heures depuis le début de l'horizon)
+  const [outages, setOutages] = useState<GridOutage[]>(() => buildAnnouncedOutages());
+  const [newOutage, setNewOutage] = useState({ start: 13, end: 16 });
+
+  // Cases du planning verrouillées par l'opérateur, et planning de départ (démarrage à chaud)
+  const [locks, setLocks] = useState<PumpLock[]>([]);
+  const [warmStart, setWarmStart] =
+    useState<{ date: string; planning: number[][]; stepMinutes: number } | null>(null);
+  const [warmStartMessage, setWarmStartMessage] = useState<string | null>(null);
+
+  // Calcul en arrière-plan (Web Worker) et convergence génération par génération
+  const optimizationRun = useRef<OptimizationRun | null>(null);
+  const [seedInput, setSeedInput] = useState(''); // Vide = nouvelle graine à chaque calcul
+  const [lastSeed, setLastSeed] = useState<number | undefined>(undefined);
+
+  // Référence relâchée (programmation dynamique) pour situer le coût du GA
+  const [referenceGap, setReferenceGap] = useState<{
+    gaCost: number;
+    referenceCost: number;
+    gapPercent: number;
+    referenceViolation: number;
+  } | null>(null);
+  // Pilotage glissant : ré-optimisation horaire du reste de la journée à partir des mesures
+  const dailyProblem = useRef<{ params: PumpScheduleParams; startTime: number } | null>(null);
+  const appliedPlan = useRef<AppliedPlan | null>(null);
+  const rollingRun = useRef<OptimizationRun | null>(null);
+  // Dernière version de runRollingStep, lue par le minuteur (paramètres et graine à jour)
+  const rollingStep = useRef<() => Promise<void>>(async () => {});
+  const [rollingEnabled, setRollingEnabled] = useState(false);
+  const [rollingBusy, setRollingBusy] = useState(false);
+  const [rollingLog, setRollingLog] =
+    useState<{
+      at: number;
+      step: number;
+      recommended: boolean;
+      action: string;
+      savings: number;
+      seed?: number;
+    }[]>([]);
+  // Analyse de sensibilité : un calcul NSGA-II par cas, autour de la solution affichée
+  const sensitivityRun = useRef<OptimizationRun | null>(null);
+  const [sensitivity, setSensitivity] = useState<SensitivityAnalysis | null>(null);
+  const [sensitivityProgress, setSensitivityProgress] = useState<{ done: number; total: number } | null>(null);
+  const [sensitivityMetric, setSensitivityMetric] = useState<'cost' | 'savings'>('cost');
+  // Contraintes non respectées par la solution affichée, et assouplissements qui les lèveraient
+  const [diagnostics, setDiagnostics] = useState<ScheduleDiagnostics | null>(null);
+  const [convergence, setConvergence] =
+    useState<{ generation: number; bestCost: number; frontSize: number }[]>([]);
 
   const [algorithmParams, setAlgorithmParams] = useState({
     population: 50,
     generations: 100,
     crossover: 0.9,
-    mutation: 0.1
+    mutation: 0.1,
+    stepMinutes: 60,
+    horizonHours: 24,
+    scenarios: 10, // Trajectoires de demande échantillonnées (0 = prévision seule)
+    forecastConfidence: 0.85
   });
 
-  const runOptimization = () => {
+  const runOptimization = async (seed = warmStart) => {
     const today = new Date();
-    const demand = generateDemandPattern(today);
-    const tariffs = generateTariffSchedule();
+    const { stepMinutes, horizonHours } = algorithmParams;
+    const demand = generateDemandProfile(today, stepMinutes, horizonHours);
+    const tariffs = generateTariffSchedule(stepMinutes, horizonHours);
+    // Graine résolue ici pour que les scénarios de demande soient eux aussi reproductibles
+    const randomSeed = seedInput.trim() !== '' ? Number(seedInput) : generateSeed();
 
     const params: PumpScheduleParams = {
       demand,
+      demandScenarios: sampleDemandScenarios(
+        demand,
+        algorithmParams.forecastConfidence,
+        algorithmParams.scenarios,
+        { seed: randomSeed }
+      ),
       tariffs,
-      reservoirLevel: ZIGA_STATION.reservoir.currentLevel,
+      stepMinutes,
+      horizonHours,
+      reservoirs: buildStationReservoirs(),
+      availability: [...buildMaintenanceWindows(horizonHours), ...availabilityWindows],
+      locks,
+      powerTariff: SONABEL_TARIFFS.power,
+      capacitorBank: ZIGA_STATION.electrical.capacitorBank,
+      reactiveEnergyPrice: SONABEL_TARIFFS.reactiveEnergyPrice,
+      outages: outages.filter(o => o.start < horizonHours),
+      genset: ZIGA_STATION.genset,
+      ...(solarEnabled && {
+        solarProduction: generateSolarProfile(stepMinutes, horizonHours),
+        battery: ZIGA_STATION.solarStudy.battery
+      }),
       pumps: ZIGA_STATION.pumps.map(p => ({
         id: p.id,
         power: p.power,
         efficiency: p.efficiency,
-        maxFlow: p.maxFlow
+        maxFlow: p.maxFlow,
+        cosPhi: p.cosPhi,
+        curve: p.curve,
+        vfd: vfdEnabled ? { minSpeed: ZIGA_STATION.vfdRetrofit.minSpeed } : undefined
       })),
+      systemCurve: ZIGA_STATION.systemCurve,
       constraints: {
-        minReservoir: ZIGA_STATION.reservoir.minLevel,
-        maxReservoir: ZIGA_STATION.reservoir.maxLevel,
         minCosPhi: ZIGA_STATION.electrical.cosPhiMin,
-        maxActivePumps: 3
+        maxActivePumps: 3,
+        ...ZIGA_STATION.operating
       }
     };
 
-    const result = optimizePumpSchedule(params, {
-      populationSize: algorithmParams.population,
-      generations: algorithmParams.generations,
-      crossoverRate: algorithmParams.crossover,
-      mutationRate: algorithmParams.mutation
-    });
+    optimizationRun.current?.cancel();
+    sensitivityRun.current?.cancel();
+    setSensitivity(null);
+    setConvergence([]);
+    setIsCalculating(true);
 
-    const uniformSchedule = Array.from(
-      { length: 24 },
-      () => params.constraints.maxActivePumps
+    const run = runOptimizationInWorker(
+      params,
+      {
+        populationSize: algorithmParams.population,
+        generations: algorithmParams.generations,
+        crossoverRate: algorithmParams.crossover,
+        mutationRate: algorithmParams.mutation,
+        seed: randomSeed,
+        seedPlannings: seed
+          ? [resamplePlanning(seed.planning, seed.stepMinutes, stepMinutes, horizonHours)]
+          : undefined
+      },
+      (progress) => {
+        setConvergence((points) => [
+          ...points,
+          { generation: progress.generation, bestCost: progress.bestCost, frontSize: progress.frontSize }
+        ]);
+      }
+    );
+    optimizationRun.current = run;
+
+    let result: Nsga2Result | null = null;
+    try {
+      result = await run.result;
+    } catch (error) {
+      console.error("[Optimisation] Échec de l'optimisation", error);
+    }
+    // Un calcul plus récent a pris le relais
+    if (optimizationRun.current !== run) return;
+    optimizationRun.current = null;
+    setIsCalculating(false);
+    if (!result) return;
+
+    // Référence : autant de pompes que la puissance souscrite (ou le groupe pendant un délestage)
+    // le permet, en continu
+    const mask = buildAvailabilityMask(params);
+    const outageSteps = buildOutageMask(params);
+    const pumpPower = Math.max(...params.pumps.map((p) => p.power));
+    const uniformPumps = Math.min(
+      params.constraints.maxActivePumps,
+      Math.floor(SONABEL_TARIFFS.power.subscribedPower / pumpPower)
+    );
+    const gensetPumps = Math.min(uniformPumps, Math.floor(ZIGA_STATION.genset.power / pumpPower));
+    const uniformSchedule = planningFromPumpCounts(
+      outageSteps.map((outage) => (outage ? gensetPumps : uniformPumps)),
+      params.pumps,
+      mask
     );
 
-    const uniform = computeScheduleCost(uniformSchedule, demand, tariffs);
-    const optimized = computeScheduleCost(result.planning, demand, tariffs);
+    setLastSeed(result.seed);
 
-    setBaseCost(uniform.totalCost);
-    setOptimizedCost(optimized.totalCost);
-    setOptimizedCosPhi(result.cosPhi);
+    const reference = solvePumpScheduleDP(params);
+    setReferenceGap({
+      gaCost: result.cost,
+      referenceCost: reference.cost,
+      gapPercent: scheduleGap(result, reference).percent,
+      referenceViolation: reference.constraintViolation
+    });
 
-    const front = generateParetoFront(params, 40);
-    setParetoPoints(front.map((p) => ({ cost: p.cost, stability: p.stability })));
+    setDemand24h(demand);
+    setTariffs24h(tariffs);
+    setAvailabilityMask(mask);
+    setOutageMask(outageSteps);
+
+    // Nouveau planning de la journée : point de départ du pilotage glissant
+    dailyProblem.current = {
+      params,
+      startTime: new Date(today.getFullYear(), today.getMonth(), today.getDate()).getTime()
+    };
+
+    // Solution recommandée (la moins chère du front) affichée en premier
+    lastRun.current = { params, uniformSchedule, date: today.toISOString().split('T')[0] };
+    setParetoFront(result.paretoFront);
+    setSelectedParetoIndex(0);
+    applySchedule(result, lastRun.current, result.diagnostics);
+  };
+
+  // Charge une solution dans les coûts, le planning, le heatmap et le rapport PDF, puis l'enregistre
+  // comme planning appliqué
+  const applySchedule = (
+    schedule: OptimizedSchedule,
+    { params, uniformSchedule, date }: { params: PumpScheduleParams; uniformSchedule: number[][]; date: string },
+    scheduleDiagnostics = diagnoseSchedule(
+      schedule.pumpPlanning, params, schedule.capacitorPlanning, schedule.speedPlanning
+    )
+  ) => {
+    setDiagnostics(scheduleDiagnostics);
+
+    // La référence fonctionne sans gradins de condensateurs
+    const uniform = computeScheduleCost(uniformSchedule, params);
+    const optimized = computeScheduleCost(
+      schedule.pumpPlanning, params, schedule.capacitorPlanning, schedule.speedPlanning
+    );
+
+    // Les coûts couvrent tout l'horizon (24/48/72h) : affichés et exportés par jour
+    const perDay = (value: number) => Math.round((value * 24) / schedule.horizonHours);
+
+    setBaseCost(perDay(uniform.totalCost));
+    setOptimizedCost(perDay(optimized.totalCost));
+    setBaseUsage({ energy: perDay(uniform.energy), pumpHours: perDay(uniform.pumpHours) });
+    setOptimizedUsage({
+      energy: perDay(optimized.energy),
+      pumpHours: perDay(optimized.pumpHours),
+      offPeakShare: optimized.offPeakShare
+    });
+    setOptimizedCosPhi(schedule.cosPhi);
+    setOptimizedPeakPower(optimized.peakPower);
+    setBasePowerFactor({ cosPhi: uniform.cosPhi, penalty: perDay(uniform.reactivePenalty) });
+    setOptimizedPenalty(perDay(optimized.reactivePenalty));
 
     // Met à jour les visualisations dérivées
     setDynamicCostBreakdown([
-      { name: 'Heures pleines', value: optimized.peakCost, color: '#0066CC' },
-      { name: 'Heures creuses', value: optimized.offPeakCost, color: '#20AF24' },
-      { name: 'Prime fixe', value: SONABEL_TARIFFS.fixedCharge, color: '#94A3B8' }
+      { name: 'Heures pleines', value: perDay(optimized.peakCost), color: '#0066CC' },
+      { name: 'Heures creuses', value: perDay(optimized.offPeakCost), color: '#20AF24' },
+      { name: 'Prime fixe', value: perDay(optimized.fixedCharge), color: '#94A3B8' },
+      { name: 'Prime de puissance', value: perDay(optimized.demandCharge), color: '#F59E0B' },
+      { name: 'Pénalité Cos φ', value: perDay(optimized.reactivePenalty), color: '#EF4444' },
+      { name: 'Groupe électrogène', value: perDay(optimized.gensetCost), color: '#EA580C' }
     ]);
 
-    const optimizedHeatmap = [];
-    for (let hour = 0; hour < 24; hour++) {
-      const pumpsActive = result.planning[hour];
-      const isOffPeak = tariffs[hour] === SONABEL_TARIFFS.offPeakPrice;
-      optimizedHeatmap.push({
-        hour,
-        P1: pumpsActive >= 1 ? 1 : 0,
-        P2: pumpsActive >= 2 ? 1 : 0,
-        P3: pumpsActive >= 3 ? 1 : 0,
-        offPeak: isOffPeak
+    const optimizedHeatmap = schedule.pumpPlanning.map((stepPlan, step) => ({
+      step,
+      pumps: stepPlan,
+      offPeak: params.tariffs[step] === SONABEL_TARIFFS.offPeakPrice
+    }));
+    setDynamicScheduleHeatmap(optimizedHeatmap);
+
+    setOptimizedPlanning(schedule.planning);
+    setPlanningStepMinutes(schedule.stepMinutes);
+    setReservoirLevels(schedule.reservoirLevels);
+    setLevelEnvelope(
+      schedule.reservoirLevels.map((level, i) => ({
+        time: formatStepTime(i, schedule.stepMinutes),
+        level: Math.round(level * 10) / 10,
+        min: Math.round(schedule.levelEnvelope.min[i] * 10) / 10,
+        max: Math.round(schedule.levelEnvelope.max[i] * 10) / 10
+      }))
+    );
+    setScenarioCount(schedule.scenarioCount);
+    setSwitchingReports(schedule.switchingReports);
+    setCapacitorPlanning(schedule.capacitorPlanning);
+    setAvoidedGridKWh(Math.round((schedule.solarEnergy * 24) / schedule.horizonHours));
+    setSpeedPlanning(schedule.speedPlanning);
+    if (params.pumps.some((pump) => pump.vfd)) {
+      // Même planning, pompes en démarrage direct (sans variateur)
+      const directOnLine = computeScheduleCost(
+        schedule.pumpPlanning,
+        { ...params, pumps: params.pumps.map((pump) => ({ ...pump, vfd: undefined })) },
+        schedule.capacitorPlanning
+      );
+      const runningSpeeds = schedule.speedPlanning.flatMap((speeds, step) =>
+        speeds.filter((_, p) => schedule.pumpPlanning[step][p] === 1)
+      );
+      setVfdSummary({
+        averageSpeed: runningSpeeds.length
+          ? runningSpeeds.reduce((a, b) => a + b, 0) / runningSpeeds.length
+          : 1,
+        specificEnergy: schedule.specificEnergy,
+        directOnLineCost: directOnLine.totalCost,
+        dailyGain: Math.round(((directOnLine.totalCost - optimized.totalCost) * 24) / schedule.horizonHours)
       });
+    } else {
+      setVfdSummary(null);
     }
-    setDynamicScheduleHeatmap(optimizedHeatmap);
+    setGensetSummary({
+      hours: (schedule.onGenset.filter(Boolean).length * schedule.stepMinutes) / 60,
+      litres: schedule.fuelLitres,
+      cost: schedule.gensetCost
+    });
+
+    appliedPlan.current = { plan: schedule, fromStep: 0 };
+
+    // Sauvegarde locale pour servir de point de départ demain
+    const { stepCosts } = simulateSchedule(schedule.pumpPlanning, params);
+    savePumpSchedule({
+      id: `${ZIGA_STATION.id}-${date}`,
+      date,
+      stationId: ZIGA_STATION.id,
+      planning24h: schedule.planning.map((pumpsActive, step) => ({
+        hour: (step * schedule.stepMinutes) / 60,
+        pumpsActive,
+        isOffPeak: params.tariffs[step] === SONABEL_TARIFFS.offPeakPrice,
+        cost: Math.round(stepCosts[step])
+      })),
+      pumpPlanning: schedule.pumpPlanning,
+      stepMinutes: schedule.stepMinutes,
+      totalCost: uniform.totalCost,
+      optimizedCost: optimized.totalCost,
+      savings: uniform.totalCost - optimized.totalCost,
+      createdAt: Date.now()
+    }).catch((error) => console.error('[Optimisation] Sauvegarde du planning impossible', error));
+  };
 
-    const variations = [-20, -15, -10, -5, 0, 5, 10, 15, 20];
-    const sensitivity = variations.map((variation) => {
-      const factor = 1 + variation / 100;
-      const scaledTariffs = tariffs.map((t) => t * factor);
-      const uniformVar = computeScheduleCost(uniformSchedule, demand, scaledTariffs);
-      const optimizedVar = computeScheduleCost(result.planning, demand, scaledTariffs);
-      return {
-        variation,
-        actuel: uniformVar.totalCost,
-        optimise: optimizedVar.totalCost
+  // Clic sur un point du front de Pareto : ce compromis devient le planning affiché et exporté
+  const selectParetoPoint = (index: number) => {
+    const schedule = paretoFront[index];
+    if (!schedule || !lastRun.current) return;
+    setSelectedParetoIndex(index);
+    setSensitivity(null);
+    applySchedule(schedule, lastRun.current);
+  };
+
+  const runSensitivity = async () => {
+    const context = lastRun.current;
+    const base = paretoFront[selectedParetoIndex];
+    if (!context || !base || sensitivityProgress) return;
+
+    setSensitivityProgress({ done: 0, total: 0 });
+    try {
+      const analysis = await runSensitivityAnalysis(
+        context.params,
+        base,
+        (params, seedPlanning) => {
+          const run = runOptimizationInWorker(params, {
+            populationSize: algorithmParams.population,
+            generations: Math.max(10, Math.round(algorithmParams.generations * SENSITIVITY_GENERATION_SHARE)),
+            crossoverRate: algorithmParams.crossover,
+            mutationRate: algorithmParams.mutation,
+            seed: lastSeed,
+            seedPlannings: seedPlanning ? [seedPlanning] : undefined
+          });
+          sensitivityRun.current = run;
+          return run.result;
+        },
+        { onCase: (done, total) => setSensitivityProgress({ done, total }) }
+      );
+      if (analysis) setSensitivity(analysis);
+    } catch (error) {
+      console.error("[Optimisation] Échec de l'analyse de sensibilité", error);
+    } finally {
+      sensitivityRun.current = null;
+      setSensitivityProgress(null);
+    }
+  };
+
+  const cancelSensitivity = () => {
+    sensitivityRun.current?.cancel();
+  };
+
+  const loadPreviousSchedule = async () => {
+    const yesterday = new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString().split('T')[0];
+    try {
+      const stored = await getPumpSchedule(yesterday, ZIGA_STATION.id);
+      if (!stored) {
+        setWarmStartMessage(`Aucun planning enregistré pour le ${yesterday}`);
+        return;
+      }
+      const seed = {
+        date: stored.date,
+        planning:
+          stored.pumpPlanning ??
+          planningFromPumpCounts(
+            stored.planning24h.map((h) => h.pumpsActive),
+            ZIGA_STATION.pumps
+          ),
+        stepMinutes: stored.stepMinutes ?? 60
       };
+      setWarmStart(seed);
+      setWarmStartMessage(`Optimisation repartie du planning du ${stored.date}`);
+      handleRecalculate(seed);
+    } catch (error) {
+      console.error('[Optimisation] Lecture du planning impossible', error);
+      setWarmStartMessage('Lecture du planning enregistré impossible');
+    }
+  };
+
+  // Clic sur une case : verrouille l'état affiché, puis l'état inverse, puis déverrouille
+  const toggleLock = (pumpId: string, step: number, currentValue: number) => {
+    const start = (step * planningStepMinutes) / 60;
+    const end = start + planningStepMinutes / 60;
+    setLocks((current) => {
+      const existing = current.find((l) => l.pumpId === pumpId && l.start === start);
+      if (!existing) return [...current, { pumpId, start, end, on: currentValue === 1 }];
+      const others = current.filter((l) => l !== existing);
+      if (existing.on === (currentValue === 1)) return [...others, { ...existing, on: !existing.on }];
+      return others;
     });
-    setDynamicSensitivityData(sensitivity);
+  };
 
-    setDemand24h(demand);
-    setTariffs24h(tariffs);
-    setOptimizedPlanning(result.planning);
+  const findLock = (pumpId: string, step: number) => {
+    const middle = ((step + 0.5) * planningStepMinutes) / 60;
+    return locks.find((l) => l.pumpId === pumpId && l.start <= middle && l.end > middle);
   };
 
-  const handleRecalculate = () => {
-    setIsCalculating(true);
-    setTimeout(() => {
-      runOptimization();
-      setIsCalculating(false);
-    }, 300); // léger délai pour l'animation
+  const addAvailabilityWindow = () => {
+    const start = Math.max(0, newWindow.start);
+    const end = Math.min(algorithmParams.horizonHours, newWindow.end);
+    if (end <= start) return;
+    setAvailabilityWindows(windows => [...windows, { ...newWindow, start, end }]);
+  };
+
+  const removeAvailabilityWindow = (index: number) => {
+    setAvailabilityWindows(windows => windows.filter((_, i) => i !== index));
+  };
+
+  const addOutage = () => {
+    const start = Math.max(0, newOutage.start);
+    const end = Math.min(algorithmParams.horizonHours, newOutage.end);
+    if (end <= start) return;
+    setOutages(current => [...current, { start, end, reason: 'Délestage SONABEL' }]);
+  };
+
+  const removeOutage = (index: number) => {
+    setOutages(current => current.filter((_, i) => i !== index));
+  };
+
+  const handleRecalculate = (seed = warmStart) => {
+    void runOptimization(seed);
+  };
+
+  const handleCancel = () => {
+    optimizationRun.current?.cancel();
+    optimizationRun.current = null;
+    setIsCalculating(false);
   };
 
   useEffect(() => {
-    runOptimization();
+    void runOptimization();
+    return () => {
+      optimizationRun.current?.cancel();
+      sensitivityRun.current?.cancel();
+    };
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  const runRollingStep = async () => {
+    const problem = dailyProblem.current;
+    const applied = appliedPlan.current;
+    if (!problem || !applied || rollingRun.current) return;
+
+    setRollingBusy(true);
+    const reading = generateLiveReading(applied, problem.startTime);
+    try {
+      const step = await runRollingHorizonStep(
+        problem.params,
+        problem.startTime,
+        reading,
+        applied,
+        buildForecastContext(new Date(reading.timestamp)),
+        (params, seedPlanning) => {
+          const run = runOptimizationInWorker(params, {
+            populationSize: algorithmParams.population,
+            generations: algorithmParams.generations,
+            crossoverRate: algorithmParams.crossover,
+            mutationRate: algorithmParams.mutation,
+            seedPlannings: seedPlanning ? [seedPlanning] : undefined,
+            seed: lastSeed
+          });
+          rollingRun.current = run;
+          return run.result;
+        }
+      );
+      if (!step) return;
+
+      // Recommandation émise seulement si le planning change de façon significative
+      const recommended = step.change === null || step.change.material;
+      const recommendation = buildPlanRecommendation(step, applied, reading, ZIGA_STATION.id);
+      if (recommended) {
+        appliedPlan.current = { plan: step.plan, fromStep: step.fromStep };
+        await addRecommendation(recommendation);
+      }
+      setRollingLog((log) => [
+        {
+          at: reading.timestamp,
+          step: step.fromStep,
+          recommended,
+          action: recommended ? recommendation.action : 'Planning en cours maintenu',
+          savings: recommended ? recommendation.estimatedSavings : 0,
+          seed: step.plan.seed
+        },
+        ...log
+      ].slice(0, 5));
+    } catch (error) {
+      console.error('[Optimisation] Échec du pilotage glissant', error);
+    } finally {
+      rollingRun.current = null;
+      setRollingBusy(false);
+    }
+  };
+
+  useEffect(() => {
+    rollingStep.current = runRollingStep;
+  });
+
+  useEffect(() => {
+    if (!rollingEnabled) return;
+    void rollingStep.current();
+    const timer = setInterval(() => void rollingStep.current(), RECOMPUTE_INTERVAL_MINUTES * 60000);
+    return () => {
+      clearInterval(timer);
+      rollingRun.current?.cancel();
+    };
+  }, [rollingEnabled]);
+
+  const co2PerDay = (avoidedGridKWh ?? 0) * ZIGA_STATION.electrical.gridEmissionFactor;
+
   const handleExportReport = async () => {
     if (!baseCost || !optimizedCost || !optimizedPlanning.length) {
       // On évite de générer un PDF vide
@@ -279,19 +825,41 @@ export function OptimisationModule() {
       savings,
       savingsPercent,
       planning24h: optimizedPlanning,
-      demand24h: demand24h.length ? demand24h : Array(24).fill(0),
-      tariffs24h: tariffs24h.length ? tariffs24h : Array(24).fill(SONABEL_TARIFFS.peakPrice),
+      demand24h: demand24h.length ? demand24h : Array(optimizedPlanning.length).fill(0),
+      tariffs24h: tariffs24h.length
+        ? tariffs24h
+        : Array(optimizedPlanning.length).fill(SONABEL_TARIFFS.peakPrice),
+      stepMinutes: planningStepMinutes,
+      reservoirLevels,
       cosPhi: optimizedCosPhi ?? ZIGA_STATION.electrical.cosPhi,
-      penaltyAvoided:
-        (optimizedCosPhi ?? ZIGA_STATION.electrical.cosPhi) >= ZIGA_STATION.electrical.cosPhiMin
-          ? 8900
-          : 0,
-      co2Saved: 142,
-      paretoFront: paretoPoints
+      currentCosPhi: basePowerFactor?.cosPhi,
+      penaltyAvoided: Math.max(0, (basePowerFactor?.penalty ?? 0) - (optimizedPenalty ?? 0)),
+      co2Saved: Math.round(co2PerDay),
+      paretoFront: paretoFront.map((p) => ({
+        cost: p.objectives.cost,
+        stability: p.objectives.stability,
+        switches: p.objectives.switches
+      })),
+      selectedParetoIndex,
+      sensitivity: sensitivity ?? undefined,
+      infeasible: diagnostics !== null && !diagnostics.feasible,
+      seed: lastSeed
     });
   };
 
-  const getPumpColor = (value: number, offPeak: boolean) => {
+  const heatmapRows = dynamicScheduleHeatmap ?? scheduleHeatmap;
+  const infeasible = diagnostics !== null && !diagnostics.feasible;
+
+  const formatSteps = (steps: number[]) =>
+    stepRanges(steps)
+      .map(([first, last]) =>
+        `${formatStepTime(first, planningStepMinutes)}–${formatStepTime(last + 1, planningStepMinutes)}`
+      )
+      .join(', ');
+
+  const getPumpColor = (value: number, offPeak: boolean, available: boolean, outage: boolean) => {
+    if (!available) return '#FCA5A5';
+    if (outage) return value === 0 ? '#FED7AA' : '#EA580C';
     if (value === 0) return '#E2E8F0';
     return offPeak ? '#20AF24' : '#0066CC';
   };
@@ -311,14 +879,67 @@ export function OptimisationModule() {
               <h1 className="text-2xl font-bold text-[#1E293B]">Optimisation Multi-Objectifs NSGA-II</h1>
               <p className="text-sm text-gray-500">Station Ziga - Cycle 03/02/2026</p>
             </div>
-            <Button variant="outline" className="gap-2" onClick={handleExportReport}>
-              <Download className="w-4 h-4" /> Exporter rapport PDF
-            </Button>
+            <div className="flex gap-2">
+              <Button variant="outline" className="gap-2" onClick={() => downloadAlgorithmsZip(lastSeed)}>
+                <Download className="w-4 h-4" /> Algorithmes (ZIP)
+              </Button>
+              <Button variant="outline" className="gap-2" onClick={handleExportReport}>
+                <Download className="w-4 h-4" /> Exporter rapport PDF
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
       <main className="max-w-7xl mx-auto px-4 py-6 space-y-6">
+        {/* Infeasibility warning */}
+        {infeasible && diagnostics && (
+          <div className="bg-red-50 border-2 border-red-300 rounded-xl p-6">
+            <div className="flex items-start gap-3">
+              <AlertCircle className="w-6 h-6 text-red-600 shrink-0" />
+              <div className="flex-1 space-y-3">
+                <div>
+                  <h2 className="text-lg font-bold text-red-700">Aucun planning ne respecte toutes les contraintes</h2>
+                  <p className="text-sm text-red-700">
+                    Le planning affiché est le moins mauvais trouvé : ne pas l'appliquer tel quel.
+                    {diagnostics.pumpingCapacityShort &&
+                      ' Même avec toutes les pompes autorisées en marche en continu, un réservoir passe sous son minimum.'}
+                  </p>
+                </div>
+                <ul className="space-y-1 text-sm text-red-800">
+                  {diagnostics.breaches.map((breach, i) => (
+                    <li key={`${breach.constraint}-${breach.subject ?? ''}-${i}`}>
+                      <span className="font-medium">
+                        {CONSTRAINT_LABELS[breach.constraint]}
+                        {breach.subject ? ` (${breach.subject})` : ''}
+                      </span>
+                      {' : dépassé de '}
+                      {breach.unit === 'Cos φ'
+                        ? breach.amount.toFixed(2)
+                        : `${Math.round(breach.amount * 10) / 10} ${breach.unit === '%' ? 'pts' : breach.unit}`}
+                      {breach.steps.length > 0 ? ` · ${formatSteps(breach.steps)}` : ' · sur tout l\'horizon'}
+                    </li>
+                  ))}
+                </ul>
+                {diagnostics.relaxations.length > 0 && (
+                  <div className="pt-3 border-t border-red-200">
+                    <p className="text-sm font-medium text-red-700 mb-1">Assouplissements qui rendraient le problème réalisable</p>
+                    <ul className="space-y-1 text-sm text-red-800">
+                      {diagnostics.relaxations.map((relaxation) => (
+                        <li key={`${relaxation.parameter}-${relaxation.subject ?? ''}`}>
+                          {RELAXATION_LABELS[relaxation.parameter]}
+                          {relaxation.subject ? ` (${relaxation.subject})` : ''} : {relaxation.current} →{' '}
+                          <span className="font-medium">{relaxation.proposed}</span> {relaxation.unit}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        )}
+
         {/* Scenario Comparison */}
         <div className="grid md:grid-cols-3 gap-4">
           {/* Current Scenario */}
@@ -328,39 +949,53 @@ export function OptimisationModule() {
             <div className="space-y-3">
               <div>
                 <p className="text-3xl font-bold text-[#1E293B]">
-                  {(baseCost ?? 297000).toLocaleString()} FCFA
+                  {baseCost !== null ? `${baseCost.toLocaleString()} FCFA` : '-'}
                 </p>
                 <p className="text-sm text-gray-500">/jour</p>
               </div>
               <div className="pt-3 border-t border-gray-100 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">Pompage</span>
-                  <span className="font-medium">22h/jour uniforme</span>
+                  <span className="font-medium">
+                    {baseUsage ? `${baseUsage.pumpHours} h·pompe, uniforme` : '-'}
+                  </span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">kWh</span>
-                  <span className="font-medium">2 970 kWh</span>
+                  <span className="font-medium">
+                    {baseUsage ? `${baseUsage.energy.toLocaleString()} kWh` : '-'}
+                  </span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">Cos φ</span>
-                  <span className="font-medium text-red-500">0.89</span>
+                  <span className="font-medium text-red-500">{basePowerFactor ? basePowerFactor.cosPhi.toFixed(2) : '-'}</span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">Pénalités</span>
-                  <span className="font-medium text-red-500">8 900 FCFA</span>
+                  <span className="font-medium text-red-500">
+                    {basePowerFactor ? `${basePowerFactor.penalty.toLocaleString()} FCFA` : '-'}
+                  </span>
                 </div>
               </div>
             </div>
           </div>
 
           {/* AI Optimized */}
-          <div className="bg-white rounded-xl shadow-md p-6 border-2 border-[#20AF24] relative">
-            <Badge className="mb-4 bg-[#20AF24] text-white">✨ Recommandé</Badge>
+          <div
+            className={`bg-white rounded-xl shadow-md p-6 border-2 relative ${
+              infeasible ? 'border-red-400' : 'border-[#20AF24]'
+            }`}
+          >
+            {infeasible ? (
+              <Badge className="mb-4 bg-red-600 text-white">⚠ Non réalisable</Badge>
+            ) : (
+              <Badge className="mb-4 bg-[#20AF24] text-white">✨ Recommandé</Badge>
+            )}
             <h3 className="text-lg font-semibold text-[#20AF24] mb-4">IA Optimisé</h3>
             <div className="space-y-3">
               <div>
                 <p className="text-3xl font-bold text-[#20AF24]">
-                  {(optimizedCost ?? 257000).toLocaleString()} FCFA
+                  {optimizedCost !== null ? `${optimizedCost.toLocaleString()} FCFA` : '-'}
                 </p>
                 <p className="text-sm text-gray-500">/jour</p>
               </div>
@@ -371,17 +1006,23 @@ export function OptimisationModule() {
                 </div>
               ) : (
                 <div className="inline-flex items-center gap-1 bg-green-100 text-green-700 px-2 py-1 rounded-full text-sm font-medium">
-                  <ChevronDown className="w-4 h-4 rotate-180" /> 13.5%
+                  <ChevronDown className="w-4 h-4 rotate-180" /> -
                 </div>
               )}
               <div className="pt-3 border-t border-gray-100 space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">Pompage</span>
-                  <span className="font-medium">30% heures creuses</span>
+                  <span className="font-medium">
+                    {optimizedUsage
+                      ? `${optimizedUsage.pumpHours} h·pompe, ${Math.round(optimizedUsage.offPeakShare * 100)}% heures creuses`
+                      : '-'}
+                  </span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">kWh</span>
-                  <span className="font-medium">2 970 kWh</span>
+                  <span className="font-medium">
+                    {optimizedUsage ? `${optimizedUsage.energy.toLocaleString()} kWh` : '-'}
+                  </span>
                 </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">Cos φ</span>
@@ -389,9 +1030,23 @@ export function OptimisationModule() {
                     {(optimizedCosPhi ?? 0.94).toFixed(2)}
                   </span>
                 </div>
+                <div className="flex justify-between text-sm">
+                  <span className="text-gray-500">Pointe / souscrite</span>
+                  <span
+                    className={`font-medium ${
+                      (optimizedPeakPower ?? 0) > SONABEL_TARIFFS.power.subscribedPower
+                        ? 'text-red-500'
+                        : 'text-green-600'
+                    }`}
+                  >
+                    {(optimizedPeakPower ?? 900).toLocaleString()} / {SONABEL_TARIFFS.power.subscribedPower.toLocaleString()} kW
+                  </span>
+                </div>
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-500">Pénalités</span>
-                  <span className="font-medium text-green-600">0 FCFA</span>
+                  <span className="font-medium text-green-600">
+                    {optimizedPenalty !== null ? `${optimizedPenalty.toLocaleString()} FCFA` : '-'}
+                  </span>
                 </div>
               </div>
             </div>
@@ -432,11 +1087,13 @@ export function OptimisationModule() {
               </div>
               <div className="pt-3 border-t border-gray-100">
                 <p className="text-2xl font-bold text-[#1E293B]">
-                  {Math.round(
-                    (optimizedCost ?? 257000) +
-                    (offPeakPercent - 30) * 800 +
-                    (reservoirTarget - 75) * 200
-                  ).toLocaleString()} FCFA
+                  {optimizedCost !== null
+                    ? `${Math.round(
+                      optimizedCost +
+                      (offPeakPercent - 30) * 800 +
+                      (reservoirTarget - 75) * 200
+                    ).toLocaleString()} FCFA`
+                    : '-'}
                 </p>
               </div>
               <Button className="w-full" variant="outline">Appliquer ce scénario</Button>
@@ -446,7 +1103,12 @@ export function OptimisationModule() {
 
         {/* Pareto Front */}
         <div className="bg-white rounded-xl shadow-sm p-6">
-          <h2 className="text-lg font-bold text-[#1E293B] mb-4">Front de Pareto - Compromis Coût/Stabilité</h2>
+          <h2 className="text-lg font-bold text-[#1E293B] mb-1">Front de Pareto - Compromis Coût/Stabilité</h2>
+          <p className="text-sm text-gray-500 mb-4">
+            {paretoFront.length
+              ? `${paretoFront.length} solutions non dominées (coût, stabilité, démarrages) - solution ${selectedParetoIndex + 1} affichée, cliquer un point pour la remplacer`
+              : 'Front disponible après le calcul'}
+          </p>
           <div className="h-80">
             <ResponsiveContainer width="100%" height="100%">
               <ScatterChart margin={{ top: 20, right: 20, bottom: 20, left: 20 }}>
@@ -455,15 +1117,15 @@ export function OptimisationModule() {
                   type="number" 
                   dataKey="cost" 
                   name="Coût" 
-                  domain={[240000, 320000]}
+                  domain={['auto', 'auto']}
                   tickFormatter={(v) => `${(v/1000).toFixed(0)}k`}
-                  label={{ value: 'Coût énergétique (FCFA)', position: 'bottom', offset: 0 }}
+                  label={{ value: 'Coût espéré (FCFA)', position: 'bottom', offset: 0 }}
                 />
                 <YAxis 
                   type="number" 
                   dataKey="stability" 
                   name="Stabilité" 
-                  domain={[0, 25]}
+                  domain={['auto', 'auto']}
                   label={{ value: 'Variation réservoir (%)', angle: -90, position: 'insideLeft' }}
                 />
                 <ZAxis type="number" dataKey="size" range={[50, 150]} />
@@ -476,7 +1138,12 @@ export function OptimisationModule() {
                         <div className="bg-white p-3 rounded-lg shadow-lg border text-sm">
                           <p className="font-medium">Coût: {Math.round(data.cost).toLocaleString()} FCFA</p>
                           <p>Stabilité: {data.stability.toFixed(1)}%</p>
-                          {data.isBest && <p className="text-[#20AF24] font-medium">⭐ Solution optimale</p>}
+                          <p>Démarrages/arrêts: {data.switches}</p>
+                          {data.violation > 0 && <p className="text-orange-600">Contraintes non respectées</p>}
+                          {data.isBest && <p className="text-[#20AF24] font-medium">⭐ Solution la moins chère</p>}
+                          {data.isSelected
+                            ? <p className="text-[#0066CC] font-medium">Solution choisie</p>
+                            : <p className="text-gray-500">Cliquer pour charger ce planning</p>}
                         </div>
                       );
                     }
@@ -484,28 +1151,60 @@ export function OptimisationModule() {
                   }}
                 />
                 <Scatter
-                  data={
-                    paretoPoints.length
-                      ? paretoPoints.map((p, i) => ({
-                          cost: p.cost,
-                          stability: p.stability,
-                          size: 40 + (i === 0 ? 40 : 0),
-                          isBest: i === 0
-                        }))
-                      : []
-                  }
+                  data={paretoFront.map((p, i) => ({
+                    cost: p.objectives.cost,
+                    stability: p.objectives.stability,
+                    switches: p.objectives.switches,
+                    violation: p.constraintViolation,
+                    size: 40 + (i === selectedParetoIndex ? 40 : 0),
+                    isBest: i === 0,
+                    isSelected: i === selectedParetoIndex
+                  }))}
                   fill="#94A3B8"
+                  cursor="pointer"
+                  onClick={(_, index) => selectParetoPoint(index)}
                 >
-                  {paretoPoints.map((_, index) => (
+                  {paretoFront.map((_, index) => (
                     <Cell
                       key={`cell-${index}`}
-                      fill={index === 0 ? '#20AF24' : '#94A3B8'}
+                      fill={index === selectedParetoIndex ? '#0066CC' : index === 0 ? '#20AF24' : '#94A3B8'}
                     />
                   ))}
                 </Scatter>
               </ScatterChart>
             </ResponsiveContainer>
           </div>
+          {referenceGap && (
+            <div className="mt-4 grid sm:grid-cols-3 gap-4 pt-4 border-t border-gray-100">
+              <div>
+                <p className="text-xs text-gray-500">Coût énergie NSGA-II</p>
+                <p className="text-lg font-bold text-[#1E293B]">{referenceGap.gaCost.toLocaleString()} FCFA</p>
+              </div>
+              <div>
+                <p className="text-xs text-gray-500">Référence relâchée (prog. dynamique)</p>
+                <p className="text-lg font-bold text-[#1E293B]">{referenceGap.referenceCost.toLocaleString()} FCFA</p>
+              </div>
+              {referenceGap.referenceViolation > 0 ? (
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <Info className="w-3 h-3" />
+                  Référence non réalisable (durées minimales de marche/arrêt, démarrages par jour, Cos φ
+                  et scénarios de demande non imposés) : écart non calculé.
+                </p>
+              ) : (
+                <div>
+                  <p className="text-xs text-gray-500">Écart GA / référence</p>
+                  <p
+                    className={`text-lg font-bold ${
+                      referenceGap.gapPercent <= 5 ? 'text-[#20AF24]' : 'text-orange-600'
+                    }`}
+                  >
+                    {referenceGap.gapPercent > 0 ? '+' : ''}
+                    {referenceGap.gapPercent}%
+                  </p>
+                </div>
+              )}
+            </div>
+          )}
         </div>
 
         {/* Cost Breakdown & Schedule Heatmap */}
@@ -536,7 +1235,7 @@ export function OptimisationModule() {
               <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
                 <div className="text-center">
                   <p className="text-2xl font-bold text-[#1E293B]">
-                    {optimizedCost ? `${Math.round(optimizedCost / 1000)}k` : '257k'}
+                    {optimizedCost ? `${Math.round(optimizedCost / 1000)}k` : '-'}
                   </p>
                   <p className="text-xs text-gray-500">FCFA</p>
                 </div>
@@ -546,28 +1245,86 @@ export function OptimisationModule() {
 
           {/* Schedule Heatmap */}
           <div className="bg-white rounded-xl shadow-sm p-6">
-            <h2 className="text-lg font-bold text-[#1E293B] mb-4">Planning détaillé 24h</h2>
+            <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+              <h2 className="text-lg font-bold text-[#1E293B]">
+                Planning détaillé {Math.round((heatmapRows.length * planningStepMinutes) / 60)}h
+                {planningStepMinutes !== 60 && (
+                  <span className="text-sm font-normal text-gray-500"> · pas de {planningStepMinutes} min</span>
+                )}
+              </h2>
+              <div className="flex gap-2">
+                {locks.length > 0 && (
+                  <Button size="sm" variant="outline" onClick={() => setLocks([])}>
+                    <X className="w-4 h-4 mr-1" /> Verrous ({locks.length})
+                  </Button>
+                )}
+                <Button size="sm" variant="outline" onClick={loadPreviousSchedule} disabled={isCalculating}>
+                  <History className="w-4 h-4 mr-1" /> Repartir d'hier
+                </Button>
+              </div>
+            </div>
+            {warmStartMessage && (
+              <p className="text-xs text-gray-500 mb-3">{warmStartMessage}</p>
+            )}
             <div className="space-y-3">
-              {['P1', 'P2', 'P3'].map((pump) => (
-                <div key={pump} className="flex items-center gap-2">
-                  <span className="w-8 text-sm font-medium text-gray-600">{pump}</span>
+              {ZIGA_STATION.pumps.map((pump, pumpIndex) => (
+                <div key={pump.id} className="flex items-center gap-2">
+                  <span className="w-8 text-sm font-medium text-gray-600">{pump.id}</span>
                   <div className="flex-1 flex gap-0.5">
-                    {(dynamicScheduleHeatmap ?? scheduleHeatmap).map((h, i) => (
+                    {heatmapRows.map((h, i) => {
+                      const available = availabilityMask[i]?.[pumpIndex] ?? true;
+                      const outage = outageMask[i] ?? false;
+                      const lock = findLock(pump.id, h.step);
+                      return (
+                        <div
+                          key={i}
+                          className="flex-1 h-8 rounded-sm cursor-pointer hover:opacity-80 transition-opacity"
+                          style={{ 
+                            backgroundColor: getPumpColor(h.pumps[pumpIndex], h.offPeak, available, outage),
+                            minWidth: heatmapRows.length > 48 ? '2px' : '8px',
+                            boxShadow: lock ? 'inset 0 0 0 2px #F59E0B' : undefined
+                          }}
+                          onClick={() => available && toggleLock(pump.id, h.step, h.pumps[pumpIndex])}
+                          title={`${pump.id} - ${formatStepTime(h.step, planningStepMinutes)}: ${
+                            available ? (h.pumps[pumpIndex] ? 'ON' : 'OFF') : 'Indisponible'
+                          }${
+                            h.pumps[pumpIndex] && (speedPlanning[i]?.[pumpIndex] ?? 1) < 1
+                              ? ` · ${Math.round(speedPlanning[i][pumpIndex] * 100)}% vitesse`
+                              : ''
+                          }${outage ? ' · délestage' : ''}${lock ? ` · verrouillé ${lock.on ? 'ON' : 'OFF'}` : ''}`}
+                        />
+                      );
+                    })}
+                  </div>
+                </div>
+              ))}
+              {capacitorPlanning.length === heatmapRows.length && (
+                <div className="flex items-center gap-2">
+                  <span className="w-8 text-sm font-medium text-gray-600" title="Gradins de condensateurs">C</span>
+                  <div className="flex-1 flex gap-0.5">
+                    {capacitorPlanning.map((steps, i) => (
                       <div
                         key={i}
-                        className="flex-1 h-8 rounded-sm cursor-pointer hover:opacity-80 transition-opacity"
-                        style={{ 
-                          backgroundColor: getPumpColor(h[pump as keyof typeof h] as number, h.offPeak),
-                          minWidth: '8px'
+                        className="flex-1 h-4 rounded-sm"
+                        style={{
+                          backgroundColor: '#7C3AED',
+                          opacity: 0.1 + (0.9 * steps) / ZIGA_STATION.electrical.capacitorBank.steps,
+                          minWidth: heatmapRows.length > 48 ? '2px' : '8px'
                         }}
-                        title={`${pump} - ${h.hour}h: ${h[pump as keyof typeof h] ? 'ON' : 'OFF'}`}
+                        title={`Condensateurs - ${formatStepTime(i, planningStepMinutes)}: ${steps}/${
+                          ZIGA_STATION.electrical.capacitorBank.steps
+                        } gradins`}
                       />
                     ))}
                   </div>
                 </div>
-              ))}
+              )}
+              <div className="flex justify-between pl-10 text-xs text-gray-400">
+                <span>{formatStepTime(0, planningStepMinutes)}</span>
+                <span>{formatStepTime(heatmapRows.length, planningStepMinutes)}</span>
+              </div>
             </div>
-            <div className="flex items-center gap-4 mt-4 text-xs">
+            <div className="flex flex-wrap items-center gap-4 mt-4 text-xs">
               <div className="flex items-center gap-1">
                 <div className="w-3 h-3 bg-[#20AF24] rounded" />
                 <span>ON (heures creuses)</span>
@@ -580,39 +1337,317 @@ export function OptimisationModule() {
                 <div className="w-3 h-3 bg-gray-200 rounded" />
                 <span>OFF</span>
               </div>
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 bg-red-300 rounded" />
+                <span>Indisponible</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <Lock className="w-3 h-3 text-amber-500" />
+                <span>Verrouillé (clic sur une case)</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 bg-[#7C3AED] rounded" />
+                <span>C : gradins de condensateurs</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 bg-[#EA580C] rounded" />
+                <span>ON (groupe électrogène)</span>
+              </div>
+              <div className="flex items-center gap-1">
+                <div className="w-3 h-3 bg-[#FED7AA] rounded" />
+                <span>Délestage</span>
+              </div>
             </div>
+            {vfdSummary && (
+              <p className="mt-3 text-xs text-gray-500 flex items-center gap-1">
+                <Info className="w-3 h-3" />
+                Variateurs : vitesse moyenne {Math.round(vfdSummary.averageSpeed * 100)}% ·{' '}
+                {vfdSummary.specificEnergy.toFixed(2)} kWh/m³ · gain {vfdSummary.dailyGain.toLocaleString()} FCFA/jour
+                vs démarrage direct
+                {vfdSummary.dailyGain > 0 &&
+                  ` · retour sur investissement ${(
+                    (ZIGA_STATION.vfdRetrofit.costPerPump * ZIGA_STATION.pumps.length) /
+                    (vfdSummary.dailyGain * 365)
+                  ).toFixed(1)} ans`}
+              </p>
+            )}
+            {gensetSummary && gensetSummary.hours > 0 && (
+              <p className="mt-3 text-xs text-gray-500 flex items-center gap-1">
+                <Info className="w-3 h-3" />
+                Groupe électrogène : {gensetSummary.hours}h de pompage ·{' '}
+                {gensetSummary.litres.toLocaleString()} L de gazole · {gensetSummary.cost.toLocaleString()} FCFA
+              </p>
+            )}
+            {switchingReports.length > 0 && (
+              <div className="mt-4 pt-4 border-t border-gray-100 space-y-2">
+                <p className="text-xs text-gray-500">
+                  Démarrages (max {ZIGA_STATION.operating.maxStartsPerDay}/jour) · marche min{' '}
+                  {ZIGA_STATION.operating.minOnTime}h · arrêt min {ZIGA_STATION.operating.minOffTime}h
+                </p>
+                {switchingReports.map((report) => {
+                  const violations =
+                    report.minOnViolations + report.minOffViolations + report.excessStarts;
+                  return (
+                    <div key={report.pumpId} className="flex items-center justify-between text-sm">
+                      <span className="font-medium text-gray-600">{report.pumpId}</span>
+                      <span className="text-gray-500">
+                        {report.starts} démarrage{report.starts > 1 ? 's' : ''} · max{' '}
+                        {report.maxStartsInADay}/jour
+                      </span>
+                      {violations === 0 ? (
+                        <Badge variant="secondary" className="bg-green-100 text-green-700">Conforme</Badge>
+                      ) : (
+                        <Badge
+                          className="bg-orange-500 text-white"
+                          title={`Marche trop courte: ${report.minOnViolations} · Arrêt trop court: ${report.minOffViolations} · Démarrages en excès: ${report.excessStarts}`}
+                        >
+                          {violations} violation{violations > 1 ? 's' : ''}
+                        </Badge>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            )}
           </div>
         </div>
 
-        {/* Cost Sensitivity */}
+        {/* Rolling-horizon control */}
         <div className="bg-white rounded-xl shadow-sm p-6">
-          <h2 className="text-lg font-bold text-[#1E293B] mb-4">Sensibilité aux variations tarifaires</h2>
-          <div className="h-64">
-            <ResponsiveContainer width="100%" height="100%">
-              <LineChart data={dynamicSensitivityData ?? sensitivityData}>
-                <CartesianGrid strokeDasharray="3 3" />
-                <XAxis 
-                  dataKey="variation" 
-                  tickFormatter={(v) => `${v > 0 ? '+' : ''}${v}%`}
-                  label={{ value: 'Variation tarif (%)', position: 'bottom', offset: 0 }}
-                />
-                <YAxis 
-                  tickFormatter={(v) => `${(v/1000).toFixed(0)}k`}
-                  label={{ value: 'Coût (FCFA)', angle: -90, position: 'insideLeft' }}
-                />
-                <Tooltip formatter={(v: number) => `${v.toLocaleString()} FCFA`} />
-                <Legend />
-                <Line type="monotone" dataKey="actuel" name="Scénario actuel" stroke="#94A3B8" strokeWidth={2} />
-                <Line type="monotone" dataKey="optimise" name="IA optimisé" stroke="#20AF24" strokeWidth={2} />
-              </LineChart>
-            </ResponsiveContainer>
+          <div className="flex flex-wrap items-start justify-between gap-2 mb-2">
+            <div>
+              <h2 className="text-lg font-bold text-[#1E293B]">Pilotage glissant</h2>
+              <p className="text-sm text-gray-500">
+                Toutes les {RECOMPUTE_INTERVAL_MINUTES} min : niveaux et pompes mesurés, demande re-prévue,
+                ré-optimisation du reste de la journée
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => void runRollingStep()}
+                disabled={rollingBusy || isCalculating}
+              >
+                <RefreshCw className={`w-4 h-4 mr-1 ${rollingBusy ? 'animate-spin' : ''}`} /> Maintenant
+              </Button>
+              <Button
+                size="sm"
+                className={rollingEnabled ? 'bg-[#20AF24] hover:bg-[#1a8f1d] text-white' : ''}
+                variant={rollingEnabled ? 'default' : 'outline'}
+                onClick={() => setRollingEnabled((enabled) => !enabled)}
+              >
+                {rollingEnabled ? 'Activé' : 'Activer'}
+              </Button>
+            </div>
           </div>
-          <div className="mt-4 p-3 bg-green-50 rounded-lg flex items-center gap-2">
-            <Info className="w-5 h-5 text-[#20AF24]" />
-            <p className="text-sm text-green-700">
-              <strong>Rentable même si tarif +15%</strong> - L'optimisation reste avantageuse dans tous les scénarios testés
+          {rollingLog.length > 0 ? (
+            <div className="mt-4 space-y-2">
+              {rollingLog.map((entry) => (
+                <div key={entry.at} className="flex items-center justify-between gap-2 text-sm">
+                  <span className="text-gray-500 w-14">
+                    {new Date(entry.at).toLocaleTimeString('fr-FR', { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <span className="flex-1 text-gray-700">
+                    {entry.action}
+                    {entry.seed !== undefined && (
+                      <span className="ml-2 text-xs text-gray-400">graine {entry.seed}</span>
+                    )}
+                  </span>
+                  {entry.recommended ? (
+                    <Badge className="bg-[#20AF24] text-white">
+                      Recommandation{entry.savings > 0 ? ` · ${entry.savings.toLocaleString()} FCFA` : ''}
+                    </Badge>
+                  ) : (
+                    <Badge variant="secondary">Inchangé</Badge>
+                  )}
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-xs text-gray-400 mt-2">
+              Une recommandation n'est émise que si le nouveau planning diffère sensiblement du planning en cours.
             </p>
+          )}
+        </div>
+
+        {/* Reservoir level under demand uncertainty */}
+        {levelEnvelope.length > 0 && (
+          <div className="bg-white rounded-xl shadow-sm p-6">
+            <h2 className="text-lg font-bold text-[#1E293B] mb-1">Niveau réservoir et incertitude de demande</h2>
+            <p className="text-sm text-gray-500 mb-4">
+              {scenarioCount > 1
+                ? `Plage min/max sur la prévision et ${scenarioCount - 1} scénarios de demande`
+                : 'Prévision seule (aucun scénario de demande)'}
+            </p>
+            <div className="h-64">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={levelEnvelope}>
+                  <CartesianGrid strokeDasharray="3 3" />
+                  <XAxis dataKey="time" interval="preserveStartEnd" minTickGap={40} />
+                  <YAxis domain={[0, 100]} tickFormatter={(v) => `${v}%`} />
+                  <Tooltip formatter={(v: number) => `${v}%`} />
+                  <Legend />
+                  <ReferenceLine
+                    y={ZIGA_STATION.reservoir.minLevel}
+                    stroke="#EF4444"
+                    strokeDasharray="4 4"
+                    label={{ value: 'Min', position: 'insideBottomLeft', fill: '#EF4444', fontSize: 12 }}
+                  />
+                  <Line type="monotone" dataKey="max" name="Scénario haut" stroke="#94A3B8" strokeDasharray="4 4" dot={false} />
+                  <Line type="monotone" dataKey="level" name="Prévision" stroke="#0066CC" strokeWidth={2} dot={false} />
+                  <Line type="monotone" dataKey="min" name="Pire scénario" stroke="#F59E0B" strokeDasharray="4 4" dot={false} />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        )}
+
+        {/* Multi-parameter sensitivity */}
+        <div className="bg-white rounded-xl shadow-sm p-6">
+          <div className="flex flex-wrap items-start justify-between gap-2 mb-4">
+            <div>
+              <h2 className="text-lg font-bold text-[#1E293B]">Analyse de sensibilité multi-paramètres</h2>
+              <p className="text-sm text-gray-500">
+                Demande, tarif, rendement des pompes, niveau initial et seuil Cos φ variés un à un puis ensemble,
+                planning ré-optimisé pour chaque cas
+              </p>
+            </div>
+            <div className="flex gap-2">
+              {sensitivity && (
+                <div className="flex rounded-md border border-gray-200 overflow-hidden text-sm">
+                  {(['cost', 'savings'] as const).map((metric) => (
+                    <button
+                      key={metric}
+                      className={`px-3 py-1 ${sensitivityMetric === metric ? 'bg-[#0066CC] text-white' : 'text-gray-600'}`}
+                      onClick={() => setSensitivityMetric(metric)}
+                    >
+                      {metric === 'cost' ? 'Coût' : 'Économie'}
+                    </button>
+                  ))}
+                </div>
+              )}
+              {sensitivityProgress ? (
+                <Button size="sm" variant="outline" onClick={cancelSensitivity}>
+                  <X className="w-4 h-4 mr-1" /> Annuler ({sensitivityProgress.done}/{sensitivityProgress.total || '…'})
+                </Button>
+              ) : (
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => void runSensitivity()}
+                  disabled={isCalculating || !paretoFront.length}
+                >
+                  <Play className="w-4 h-4 mr-1" /> Lancer l'analyse
+                </Button>
+              )}
+            </div>
           </div>
+          {sensitivityProgress && sensitivityProgress.total > 0 && (
+            <Progress value={(sensitivityProgress.done / sensitivityProgress.total) * 100} className="mb-4" />
+          )}
+          {sensitivity ? (
+            <>
+              <div className="grid lg:grid-cols-2 gap-6">
+                <div>
+                  <p className="text-sm font-medium text-gray-600 mb-2">
+                    Tornado - écart à la solution affichée ({sensitivityMetric === 'cost' ? 'coût' : 'économie'})
+                  </p>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <BarChart
+                        layout="vertical"
+                        stackOffset="sign"
+                        data={sensitivity.tornado.map((bar) => {
+                          const base = sensitivityMetric === 'cost' ? sensitivity.baseCost : sensitivity.baseSavings;
+                          return {
+                            label: SENSITIVITY_LABELS[bar.parameter],
+                            low: bar.low[sensitivityMetric] - base,
+                            high: bar.high[sensitivityMetric] - base
+                          };
+                        })}
+                        margin={{ left: 40 }}
+                      >
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis type="number" tickFormatter={(v) => `${(v/1000).toFixed(0)}k`} />
+                        <YAxis type="category" dataKey="label" width={120} tick={{ fontSize: 12 }} />
+                        <Tooltip formatter={(v: number) => `${v > 0 ? '+' : ''}${Math.round(v).toLocaleString()} FCFA`} />
+                        <Legend />
+                        <ReferenceLine x={0} stroke="#1E293B" />
+                        <Bar
+                          dataKey="low"
+                          stackId="swing"
+                          name={`Variation ${Math.round(sensitivity.tornado[0]?.low.variation * 100)}%`}
+                          fill="#94A3B8"
+                        />
+                        <Bar
+                          dataKey="high"
+                          stackId="swing"
+                          name={`Variation +${Math.round(sensitivity.tornado[0]?.high.variation * 100)}%`}
+                          fill="#0066CC"
+                        />
+                      </BarChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+                <div>
+                  <p className="text-sm font-medium text-gray-600 mb-2">
+                    Araignée - {sensitivityMetric === 'cost' ? 'coût ré-optimisé' : 'économie vs planning uniforme'}
+                  </p>
+                  <div className="h-64">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart
+                        data={sensitivity.spider.map((point) => ({
+                          variation: Math.round(point.variation * 100),
+                          ...(sensitivityMetric === 'cost' ? point.costs : point.savings)
+                        }))}
+                      >
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis
+                          dataKey="variation"
+                          tickFormatter={(v) => `${v > 0 ? '+' : ''}${v}%`}
+                        />
+                        <YAxis tickFormatter={(v) => `${(v/1000).toFixed(0)}k`} domain={['auto', 'auto']} />
+                        <Tooltip formatter={(v: number) => `${Math.round(v).toLocaleString()} FCFA`} />
+                        <Legend />
+                        {SENSITIVITY_PARAMETERS.map((parameter, i) => (
+                          <Line
+                            key={parameter}
+                            type="monotone"
+                            dataKey={parameter}
+                            name={SENSITIVITY_LABELS[parameter]}
+                            stroke={SENSITIVITY_COLORS[i % SENSITIVITY_COLORS.length]}
+                            strokeWidth={2}
+                          />
+                        ))}
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              </div>
+              <div className="mt-4 grid sm:grid-cols-2 gap-4 pt-4 border-t border-gray-100">
+                {sensitivity.joint.map((c) => (
+                  <div key={c.variation}>
+                    <p className="text-xs text-gray-500">
+                      {c.variation > 0 ? 'Tous paramètres défavorables' : 'Tous paramètres favorables'} (±
+                      {Math.round(Math.abs(c.variation) * 100)}%)
+                    </p>
+                    <p className="text-lg font-bold text-[#1E293B]">{c.cost.toLocaleString()} FCFA</p>
+                    <p className="text-xs text-gray-500">
+                      Économie {c.savings.toLocaleString()} FCFA · planning figé {c.fixedPlanCost.toLocaleString()} FCFA
+                      {c.constraintViolation > 0 && <span className="text-orange-600"> · contraintes non respectées</span>}
+                    </p>
+                  </div>
+                ))}
+              </div>
+            </>
+          ) : (
+            <p className="text-xs text-gray-400">
+              {SENSITIVITY_PARAMETERS.length} paramètres × 4 variations (±10 %, ±20 %) et 2 cas combinés, soit{' '}
+              {SENSITIVITY_PARAMETERS.length * 4 + 2} optimisations démarrées depuis le planning affiché. Résultats
+              inclus dans le rapport PDF.
+            </p>
+          )}
         </div>
 
         {/* Environmental Impact */}
@@ -623,13 +1658,25 @@ export function OptimisationModule() {
             </div>
             <div className="flex-1">
               <h2 className="text-lg font-bold text-[#1E293B]">Impact environnemental</h2>
-              <div className="grid sm:grid-cols-3 gap-4 mt-3">
+              <div className="grid sm:grid-cols-4 gap-4 mt-3">
                 <div>
-                  <p className="text-2xl font-bold text-[#20AF24]">142 kg</p>
+                  <p className="text-2xl font-bold text-[#20AF24]">
+                    {avoidedGridKWh !== null ? `${Math.round(co2PerDay * 30).toLocaleString()} kg` : '-'}
+                  </p>
                   <p className="text-sm text-gray-500">CO₂ évités/mois</p>
                 </div>
                 <div>
-                  <p className="text-2xl font-bold text-[#1E293B]">12 arbres</p>
+                  <p className="text-2xl font-bold text-[#1E293B]">
+                    {avoidedGridKWh !== null ? `${avoidedGridKWh.toLocaleString()} kWh` : '-'}
+                  </p>
+                  <p className="text-sm text-gray-500">Réseau évité/jour (solaire)</p>
+                </div>
+                <div>
+                  <p className="text-2xl font-bold text-[#1E293B]">
+                    {avoidedGridKWh !== null
+                      ? `${Math.round((co2PerDay * 365) / CO2_PER_TREE_PER_YEAR).toLocaleString()} arbres`
+                      : '-'}
+                  </p>
                   <p className="text-sm text-gray-500">Équivalent planté</p>
                 </div>
                 <div>
@@ -711,11 +1758,258 @@ export function OptimisationModule() {
                     className="mt-2"
                   />
                 </div>
+                <div>
+                  <Label className="text-sm text-gray-600 flex justify-between">
+                    <span>Scénarios de demande</span>
+                    <span className="font-medium">
+                      {algorithmParams.scenarios === 0 ? 'Prévision seule' : algorithmParams.scenarios}
+                    </span>
+                  </Label>
+                  <Slider
+                    value={[algorithmParams.scenarios]}
+                    onValueChange={(v) => setAlgorithmParams(p => ({ ...p, scenarios: v[0] }))}
+                    max={30}
+                    min={0}
+                    step={5}
+                    className="mt-2"
+                  />
+                </div>
+                <div>
+                  <Label className="text-sm text-gray-600 flex justify-between">
+                    <span>Confiance prévision</span>
+                    <span className="font-medium">{Math.round(algorithmParams.forecastConfidence * 100)}%</span>
+                  </Label>
+                  <Slider
+                    value={[algorithmParams.forecastConfidence]}
+                    onValueChange={(v) => setAlgorithmParams(p => ({ ...p, forecastConfidence: v[0] }))}
+                    max={0.95}
+                    min={0.5}
+                    step={0.05}
+                    disabled={algorithmParams.scenarios === 0}
+                    className="mt-2"
+                  />
+                </div>
+              </div>
+
+              <div className="grid sm:grid-cols-2 lg:grid-cols-3 gap-6 pt-6">
+                <div>
+                  <Label className="text-sm text-gray-600">Pas de temps</Label>
+                  <div className="flex gap-2 mt-2">
+                    {[60, 30, 15].map((minutes) => (
+                      <Button
+                        key={minutes}
+                        size="sm"
+                        variant={algorithmParams.stepMinutes === minutes ? 'default' : 'outline'}
+                        onClick={() => setAlgorithmParams(p => ({ ...p, stepMinutes: minutes }))}
+                      >
+                        {minutes} min
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-sm text-gray-600">Horizon de planification</Label>
+                  <div className="flex gap-2 mt-2">
+                    {[24, 48, 72].map((hours) => (
+                      <Button
+                        key={hours}
+                        size="sm"
+                        variant={algorithmParams.horizonHours === hours ? 'default' : 'outline'}
+                        onClick={() => setAlgorithmParams(p => ({ ...p, horizonHours: hours }))}
+                      >
+                        {hours}h
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div>
+                  <Label className="text-sm text-gray-600">Centrale solaire (étude)</Label>
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      size="sm"
+                      variant={solarEnabled ? 'outline' : 'default'}
+                      onClick={() => setSolarEnabled(false)}
+                    >
+                      Réseau seul
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={solarEnabled ? 'default' : 'outline'}
+                      onClick={() => setSolarEnabled(true)}
+                    >
+                      PV {ZIGA_STATION.solarStudy.peakPower} kWc + batterie{' '}
+                      {ZIGA_STATION.solarStudy.battery.capacity} kWh
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Le pompage se décale vers les heures d'ensoleillement ; seul l'appoint réseau est facturé.
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-sm text-gray-600">Variateurs de vitesse (étude)</Label>
+                  <div className="flex gap-2 mt-2">
+                    <Button
+                      size="sm"
+                      variant={vfdEnabled ? 'outline' : 'default'}
+                      onClick={() => setVfdEnabled(false)}
+                    >
+                      Démarrage direct
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={vfdEnabled ? 'default' : 'outline'}
+                      onClick={() => setVfdEnabled(true)}
+                    >
+                      Variateurs ({Math.round(ZIGA_STATION.vfdRetrofit.minSpeed * 100)}–100%)
+                    </Button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Vitesse choisie heure par heure sur les courbes des pompes et du réseau ; le gain est chiffré
+                    contre le même planning sans variateur.
+                  </p>
+                </div>
+                <div>
+                  <Label className="text-sm text-gray-600">Graine aléatoire (reproductibilité)</Label>
+                  <div className="flex gap-2 mt-2">
+                    <Input
+                      type="number"
+                      min={0}
+                      placeholder="Aléatoire"
+                      value={seedInput}
+                      onChange={(e) => setSeedInput(e.target.value)}
+                      className="w-32 h-8"
+                      aria-label="Graine aléatoire"
+                    />
+                    {lastSeed !== undefined && String(lastSeed) !== seedInput && (
+                      <Button size="sm" variant="outline" onClick={() => setSeedInput(String(lastSeed))}>
+                        Réutiliser {lastSeed}
+                      </Button>
+                    )}
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    Même graine et mêmes données : même planning. Enregistrée dans le rapport PDF.
+                  </p>
+                </div>
+              </div>
+
+              <div className="pt-6">
+                <Label className="text-sm text-gray-600">Indisponibilités des pompes (maintenance, panne)</Label>
+                <div className="flex flex-wrap items-end gap-3 mt-2">
+                  <div className="flex gap-2">
+                    {ZIGA_STATION.pumps.map((pump) => (
+                      <Button
+                        key={pump.id}
+                        size="sm"
+                        variant={newWindow.pumpId === pump.id ? 'default' : 'outline'}
+                        onClick={() => setNewWindow(w => ({ ...w, pumpId: pump.id }))}
+                      >
+                        {pump.id}
+                      </Button>
+                    ))}
+                  </div>
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <span>de</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={algorithmParams.horizonHours}
+                      value={newWindow.start}
+                      onChange={(e) => setNewWindow(w => ({ ...w, start: Number(e.target.value) }))}
+                      className="w-20 h-8"
+                      aria-label="Début de l'indisponibilité (h)"
+                    />
+                    <span>h à</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={algorithmParams.horizonHours}
+                      value={newWindow.end}
+                      onChange={(e) => setNewWindow(w => ({ ...w, end: Number(e.target.value) }))}
+                      className="w-20 h-8"
+                      aria-label="Fin de l'indisponibilité (h)"
+                    />
+                    <span>h</span>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={addAvailabilityWindow}>
+                    <Plus className="w-4 h-4 mr-1" /> Ajouter
+                  </Button>
+                </div>
+                {availabilityWindows.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {availabilityWindows.map((w, i) => (
+                      <Badge key={i} variant="secondary" className="gap-1">
+                        {w.pumpId} indisponible {formatStepTime(w.start, 60)}–{formatStepTime(w.end, 60)}
+                        <button
+                          onClick={() => removeAvailabilityWindow(i)}
+                          aria-label={`Supprimer l'indisponibilité ${w.pumpId}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-2">
+                  Heures comptées depuis le début de l'horizon. Les pompes en maintenance sont exclues sur tout l'horizon.
+                </p>
+              </div>
+
+              <div className="pt-6">
+                <Label className="text-sm text-gray-600">
+                  Délestages annoncés (groupe électrogène {ZIGA_STATION.genset.power} kW)
+                </Label>
+                <div className="flex flex-wrap items-end gap-3 mt-2">
+                  <div className="flex items-center gap-2 text-sm text-gray-600">
+                    <span>de</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={algorithmParams.horizonHours}
+                      value={newOutage.start}
+                      onChange={(e) => setNewOutage(o => ({ ...o, start: Number(e.target.value) }))}
+                      className="w-20 h-8"
+                      aria-label="Début du délestage (h)"
+                    />
+                    <span>h à</span>
+                    <Input
+                      type="number"
+                      min={0}
+                      max={algorithmParams.horizonHours}
+                      value={newOutage.end}
+                      onChange={(e) => setNewOutage(o => ({ ...o, end: Number(e.target.value) }))}
+                      className="w-20 h-8"
+                      aria-label="Fin du délestage (h)"
+                    />
+                    <span>h</span>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={addOutage}>
+                    <Plus className="w-4 h-4 mr-1" /> Ajouter
+                  </Button>
+                </div>
+                {outages.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-3">
+                    {outages.map((o, i) => (
+                      <Badge key={i} variant="secondary" className="gap-1">
+                        Délestage {formatStepTime(o.start, 60)}–{formatStepTime(o.end, 60)}
+                        <button
+                          onClick={() => removeOutage(i)}
+                          aria-label={`Supprimer le délestage de ${formatStepTime(o.start, 60)}`}
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+                <p className="text-xs text-gray-500 mt-2">
+                  Le réservoir est rempli avant chaque coupure ; pendant la coupure les pompes tournent sur le groupe,
+                  au prix du gazole ({ZIGA_STATION.genset.fuelConsumption} L/kWh à {ZIGA_STATION.genset.fuelPrice} FCFA/L).
+                </p>
               </div>
               
               <div className="flex items-center gap-4 mt-6">
                 <Button 
-                  onClick={handleRecalculate}
+                  onClick={() => handleRecalculate()}
                   disabled={isCalculating}
                   className="bg-[#0066CC] hover:bg-[#0052a3]"
                 >
@@ -725,11 +2019,76 @@ export function OptimisationModule() {
                     <><Play className="w-4 h-4 mr-2" /> Recalculer optimisation</>
                   )}
                 </Button>
-                <div className="flex items-center gap-2 text-sm text-orange-600">
-                  <AlertCircle className="w-4 h-4" />
-                  <span>Recalcul ~30 secondes</span>
-                </div>
+                {isCalculating ? (
+                  <>
+                    <div className="flex-1 max-w-xs">
+                      <Progress
+                        value={((convergence[convergence.length - 1]?.generation ?? 0) / algorithmParams.generations) * 100}
+                      />
+                      <p className="text-xs text-gray-500 mt-1">
+                        Génération {convergence[convergence.length - 1]?.generation ?? 0}/{algorithmParams.generations}
+                      </p>
+                    </div>
+                    <Button variant="outline" onClick={handleCancel}>
+                      <X className="w-4 h-4 mr-2" /> Annuler
+                    </Button>
+                  </>
+                ) : (
+                  <div className="flex items-center gap-2 text-sm text-orange-600">
+                    <AlertCircle className="w-4 h-4" />
+                    <span>Calcul en arrière-plan, l'application reste utilisable</span>
+                  </div>
+                )}
               </div>
+
+              {convergence.length > 0 && (
+                <div className="mt-6">
+                  <Label className="text-sm text-gray-600">
+                    Convergence · front de Pareto: {convergence[convergence.length - 1].frontSize} solutions
+                  </Label>
+                  <div className="h-48 mt-2">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <LineChart data={convergence}>
+                        <CartesianGrid strokeDasharray="3 3" />
+                        <XAxis dataKey="generation" tick={{ fontSize: 12 }} />
+                        <YAxis
+                          yAxisId="cost"
+                          domain={['auto', 'auto']}
+                          tickFormatter={(v) => `${(v / 1000).toFixed(0)}k`}
+                          tick={{ fontSize: 12 }}
+                        />
+                        <YAxis yAxisId="front" orientation="right" allowDecimals={false} tick={{ fontSize: 12 }} />
+                        <Tooltip
+                          formatter={(v: number, name: string) =>
+                            name === 'Meilleur coût' ? `${v.toLocaleString()} FCFA` : v
+                          }
+                          labelFormatter={(g) => `Génération ${g}`}
+                        />
+                        <Legend />
+                        <Line
+                          yAxisId="cost"
+                          type="monotone"
+                          dataKey="bestCost"
+                          name="Meilleur coût"
+                          stroke="#0066CC"
+                          strokeWidth={2}
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                        <Line
+                          yAxisId="front"
+                          type="stepAfter"
+                          dataKey="frontSize"
+                          name="Taille du front"
+                          stroke="#20AF24"
+                          dot={false}
+                          isAnimationActive={false}
+                        />
+                      </LineChart>
+                    </ResponsiveContainer>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </div>